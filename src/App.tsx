@@ -12,10 +12,19 @@ import { Loader2 } from "lucide-react";
 // Lazy load all page components for better performance
 const Home = lazy(() => import("./pages/Home"));
 const Materials = lazy(() => import("./pages/Materials"));
+const Library = lazy(() => import("./pages/Library"));
+const MaterialDetail = lazy(() => import("./pages/MaterialDetail"));
+const FlashcardDecks = lazy(() => import("./pages/FlashcardDecks"));
 const Flashcards = lazy(() => import("./pages/Flashcards"));
+const FlashcardStats = lazy(() => import("./pages/FlashcardStats"));
+const FlashcardSessionBuilder = lazy(() => import("./pages/FlashcardSessionBuilder"));
+const FlashcardManager = lazy(() => import("./pages/FlashcardManager"));
 const AITutor = lazy(() => import("./pages/AITutor"));
 const Notes = lazy(() => import("./pages/Notes"));
 const Quizzes = lazy(() => import("./pages/Quizzes"));
+const QuizEditor = lazy(() => import("./pages/QuizEditor"));
+const MockExamBuilder = lazy(() => import("./pages/MockExamBuilder"));
+const QuizPrint = lazy(() => import("./pages/QuizPrint"));
 const Profile = lazy(() => import("./pages/Profile"));
 const Auth = lazy(() => import("./pages/Auth"));
 const Navigation = lazy(() => import("./components/Navigation"));
@@ -43,10 +52,19 @@ const App = () => (
                 <Route path="/auth" element={<Auth />} />
                 <Route path="/" element={<ProtectedRoute><Home /><Navigation /></ProtectedRoute>} />
                 <Route path="/materials" element={<ProtectedRoute><Materials /><Navigation /></ProtectedRoute>} />
-                <Route path="/flashcards" element={<ProtectedRoute><Flashcards /><Navigation /></ProtectedRoute>} />
+                <Route path="/library" element={<ProtectedRoute><Library /><Navigation /></ProtectedRoute>} />
+                <Route path="/library/:materialId" element={<ProtectedRoute><MaterialDetail /><Navigation /></ProtectedRoute>} />
+                <Route path="/flashcards" element={<ProtectedRoute><FlashcardDecks /><Navigation /></ProtectedRoute>} />
+                <Route path="/flashcards/stats" element={<ProtectedRoute><FlashcardStats /><Navigation /></ProtectedRoute>} />
+                <Route path="/flashcards/builder" element={<ProtectedRoute><FlashcardSessionBuilder /><Navigation /></ProtectedRoute>} />
+                <Route path="/flashcards/:materialId" element={<ProtectedRoute><Flashcards /><Navigation /></ProtectedRoute>} />
+                <Route path="/flashcards/:materialId/manage" element={<ProtectedRoute><FlashcardManager /><Navigation /></ProtectedRoute>} />
                 <Route path="/tutor" element={<ProtectedRoute><AITutor /><Navigation /></ProtectedRoute>} />
                 <Route path="/notes" element={<ProtectedRoute><Notes /><Navigation /></ProtectedRoute>} />
                 <Route path="/quizzes" element={<ProtectedRoute><Quizzes /><Navigation /></ProtectedRoute>} />
+                <Route path="/quizzes/exam" element={<ProtectedRoute><MockExamBuilder /><Navigation /></ProtectedRoute>} />
+                <Route path="/quizzes/:quizId/edit" element={<ProtectedRoute><QuizEditor /><Navigation /></ProtectedRoute>} />
+                <Route path="/quizzes/:quizId/print" element={<ProtectedRoute><QuizPrint /><Navigation /></ProtectedRoute>} />
                 <Route path="/profile" element={<ProtectedRoute><Profile /><Navigation /></ProtectedRoute>} />
                 <Route path="*" element={<NotFound />} />
               </Routes>
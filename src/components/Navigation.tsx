@@ -17,11 +17,13 @@ const Navigation = memo(() => {
   ];
 
   return (
-    <nav className="fixed bottom-0 left-0 right-0 z-50 px-2 sm:px-3 pb-safe pb-3 sm:pb-6">
+    <nav className="print:hidden fixed bottom-0 left-0 right-0 z-50 px-2 sm:px-3 pb-safe pb-3 sm:pb-6">
       <div className="glass-strong max-w-3xl mx-auto rounded-3xl shadow-float p-1.5 sm:p-2 flex justify-between items-center border border-border">
         {navItems.map((item) => {
           const Icon = item.icon;
-          const isActive = location.pathname === item.path;
+          const isActive = item.path === "/"
+            ? location.pathname === "/"
+            : location.pathname.startsWith(item.path);
           
           return (
             <button
@@ -0,0 +1,25 @@
+import { memo } from "react";
+import { parseCloze } from "@/lib/cloze";
+
+type ClozeTextProps = {
+  text: string;
+  revealed: boolean;
+};
+
+export const ClozeText = memo(({ text, revealed }: ClozeTextProps) => (
+  <>
+    {parseCloze(text).map((segment, idx) => {
+      if (segment.type === "text") return <span key={idx}>{segment.text}</span>;
+
+      return revealed ? (
+        <span key={idx} className="text-primary font-bold">{segment.text}</span>
+      ) : (
+        <span key={idx} className="inline-block min-w-[3ch] px-2 rounded-md bg-primary/15 text-primary font-bold">
+          [{segment.hint ?? "…"}]
+        </span>
+      );
+    })}
+  </>
+));
+
+ClozeText.displayName = 'ClozeText';
@@ -0,0 +1,67 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { cardsToDelimited, downloadFile, fetchDeckForExport, safeFileName } from "@/lib/flashcardTransfer";
+
+type ExportFormat = "csv" | "tsv" | "apkg";
+
+type ExportDeckMenuProps = {
+  userId: string;
+  deckId: string;
+  deckTitle: string;
+};
+
+export const ExportDeckMenu = ({ userId, deckId, deckTitle }: ExportDeckMenuProps) => {
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(true);
+    try {
+      const cards = await fetchDeckForExport(userId, deckId);
+      if (cards.length === 0) {
+        toast.error("This deck has no cards to export");
+        return;
+      }
+
+      const fileName = safeFileName(deckTitle);
+      if (format === "apkg") {
+        // Loaded on demand so the SQLite build stays out of the main bundle
+        const { exportApkg } = await import("@/lib/anki");
+        downloadFile(await exportApkg(deckTitle, cards), `${fileName}.apkg`, "application/octet-stream");
+      } else {
+        const delimiter = format === "csv" ? "," : "\t";
+        const type = format === "csv" ? "text/csv" : "text/tab-separated-values";
+        downloadFile(cardsToDelimited(cards, delimiter), `${fileName}.${format}`, `${type};charset=utf-8`);
+      }
+      toast.success(`Exported ${cards.length} ${cards.length === 1 ? "card" : "cards"}`);
+    } catch (error) {
+      console.error("Error exporting flashcards:", error);
+      toast.error("Failed to export flashcards");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button size="sm" variant="outline" disabled={exporting} className="rounded-full">
+          {exporting ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Download className="w-4 h-4 mr-1" />}
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => handleExport("apkg")}>Anki package (.apkg)</DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport("csv")}>CSV (.csv)</DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport("tsv")}>Tab-separated (.tsv)</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,94 @@
+import { memo } from "react";
+import { Card } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import { ClozeText } from "@/components/flashcards/ClozeText";
+
+type FlashcardFaceProps = {
+  question: string;
+  answer: string;
+  cardType?: string;
+  difficulty?: string | null;
+  flipped: boolean;
+  onFlip: () => void;
+};
+
+const DIFFICULTY_STYLES: Record<string, string> = {
+  easy: "bg-primary/15 text-primary",
+  medium: "bg-white/30 text-foreground",
+  hard: "bg-destructive/15 text-destructive",
+};
+
+const frontOf = (question: string, answer: string, cardType?: string) => {
+  if (cardType === "cloze") return <ClozeText text={question} revealed={false} />;
+  return cardType === "reversed" ? answer : question;
+};
+
+const backOf = (question: string, answer: string, cardType?: string) => {
+  if (cardType === "cloze") return <ClozeText text={question} revealed />;
+  return cardType === "reversed" ? question : answer;
+};
+
+export const FlashcardFace = memo(({ question, answer, cardType, difficulty, flipped, onFlip }: FlashcardFaceProps) => (
+  <div className="perspective-1000 fade-in-up" style={{ animationDelay: '0.1s' }}>
+    <Card
+      onClick={onFlip}
+      className={cn(
+        "relative glass-strong p-8 min-h-[340px] shadow-float cursor-pointer transition-all duration-700 border-white/40 liquid-ripple",
+        flipped ? "scale-105" : "hover:scale-102"
+      )}
+    >
+      {difficulty && (
+        <span
+          className={cn(
+            "absolute top-4 right-4 text-[10px] uppercase tracking-wider font-semibold px-2 py-1 rounded-full",
+            DIFFICULTY_STYLES[difficulty]
+          )}
+        >
+          {difficulty}
+        </span>
+      )}
+      <div className="flex flex-col items-center justify-center h-full text-center space-y-6">
+        {!flipped ? (
+          <>
+            <div className="relative">
+              <div className="w-12 h-12 rounded-full bg-gradient-neon flex items-center justify-center shadow-neon">
+                <span className="text-2xl font-bold text-primary-foreground">?</span>
+              </div>
+              <div className="absolute inset-0 rounded-full bg-gradient-neon opacity-30 blur-xl animate-pulse" />
+            </div>
+            <div className="space-y-3">
+              <p className="text-xs uppercase tracking-widest text-muted-foreground font-semibold">
+                {cardType === "cloze" ? "Fill in the blank" : "Question"}
+              </p>
+              <p className="text-xl font-bold leading-relaxed">
+                {frontOf(question, answer, cardType)}
+              </p>
+            </div>
+            <p className="text-xs text-muted-foreground bg-white/20 px-4 py-2 rounded-full">
+              Tap to reveal answer
+            </p>
+          </>
+        ) : (
+          <div className="space-y-6 animate-in fade-in-50 duration-500">
+            <div className="relative">
+              <div className="w-12 h-12 rounded-full bg-gradient-neon flex items-center justify-center shadow-neon">
+                <span className="text-2xl font-bold text-primary-foreground">✓</span>
+              </div>
+              <div className="absolute inset-0 rounded-full bg-gradient-neon opacity-30 blur-xl animate-pulse" />
+            </div>
+            <div className="space-y-3">
+              <p className="text-xs uppercase tracking-widest text-muted-foreground font-semibold">
+                Answer
+              </p>
+              <p className="text-lg leading-relaxed">
+                {backOf(question, answer, cardType)}
+              </p>
+            </div>
+          </div>
+        )}
+      </div>
+    </Card>
+  </div>
+));
+
+FlashcardFace.displayName = 'FlashcardFace';
@@ -0,0 +1,244 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  ColumnMapping,
+  ImportPreview,
+  ImportSource,
+  importCards,
+  parseDelimitedImport,
+  previewImport,
+  suggestMapping,
+} from "@/lib/flashcardTransfer";
+
+type ImportDeckDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string;
+  onImported: (materialId: string) => void;
+};
+
+const PREVIEW_ROWS = 3;
+
+const readSource = async (file: File): Promise<ImportSource> => {
+  if (/\.apkg$/i.test(file.name)) {
+    const { readApkg } = await import("@/lib/anki");
+    return readApkg(file);
+  }
+  return parseDelimitedImport(await file.text(), file.name);
+};
+
+export const ImportDeckDialog = ({ open, onOpenChange, userId, onImported }: ImportDeckDialogProps) => {
+  const [source, setSource] = useState<ImportSource | null>(null);
+  const [title, setTitle] = useState("");
+  const [mapping, setMapping] = useState<ColumnMapping>({ question: 0, answer: 1 });
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [reading, setReading] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setSource(null);
+      setTitle("");
+      setPreview(null);
+      setIncludeDuplicates(false);
+    }
+  }, [open]);
+
+  useEffect(() => {
+    if (!source) return;
+
+    let cancelled = false;
+    setPreview(null);
+    previewImport(userId, source, mapping)
+      .then((result) => {
+        if (!cancelled) setPreview(result);
+      })
+      .catch((error) => {
+        console.error("Error checking for duplicates:", error);
+        toast.error("Failed to check for duplicate cards");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, source, mapping]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    setReading(true);
+    try {
+      const parsed = await readSource(file);
+      if (parsed.rows.length === 0) {
+        toast.error("No cards found in this file");
+        return;
+      }
+      setSource(parsed);
+      setMapping(suggestMapping(parsed.columns));
+      setTitle(file.name.replace(/\.[^.]+$/, ""));
+    } catch (error) {
+      console.error("Error reading import file:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to read this file");
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const cardsToImport = preview ? (includeDuplicates ? [...preview.cards, ...preview.duplicates] : preview.cards) : [];
+
+  const handleImport = async () => {
+    if (!title.trim()) {
+      toast.error("Give the new deck a name");
+      return;
+    }
+
+    setImporting(true);
+    try {
+      const materialId = await importCards(userId, title.trim(), cardsToImport);
+      toast.success(`Imported ${cardsToImport.length} ${cardsToImport.length === 1 ? "card" : "cards"}`);
+      onOpenChange(false);
+      onImported(materialId);
+    } catch (error) {
+      console.error("Error importing flashcards:", error);
+      toast.error("Failed to import flashcards");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const columnSelect = (field: keyof ColumnMapping) => (
+    <Select
+      value={String(mapping[field])}
+      onValueChange={(value) => setMapping((prev) => ({ ...prev, [field]: Number(value) }))}
+    >
+      <SelectTrigger className="mt-2">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {source?.columns.map((column, index) => (
+          <SelectItem key={index} value={String(index)}>
+            {column}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import flashcards</DialogTitle>
+          <DialogDescription>
+            Anki packages (.apkg) and CSV or TSV files are imported into a new deck.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="import-file">File</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".apkg,.csv,.tsv,.txt"
+              disabled={reading || importing}
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              className="mt-2"
+            />
+          </div>
+
+          {reading && (
+            <div className="flex justify-center py-4">
+              <Loader2 className="w-6 h-6 text-primary animate-spin" />
+            </div>
+          )}
+
+          {source && !reading && (
+            <>
+              <div>
+                <Label htmlFor="import-title">Deck name</Label>
+                <Input
+                  id="import-title"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  className="mt-2"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label>Question from</Label>
+                  {columnSelect("question")}
+                </div>
+                <div>
+                  <Label>Answer from</Label>
+                  {columnSelect("answer")}
+                </div>
+              </div>
+
+              <div className="rounded-lg border divide-y text-sm">
+                {source.rows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                  <div key={index} className="p-2 grid grid-cols-2 gap-3">
+                    <p className="truncate">{row.fields[mapping.question]}</p>
+                    <p className="truncate text-muted-foreground">
+                      {row.card_type === "cloze" ? "Cloze" : row.fields[mapping.answer]}
+                    </p>
+                  </div>
+                ))}
+              </div>
+
+              {preview ? (
+                <div className="space-y-2 text-sm">
+                  <p>
+                    <span className="font-semibold">{preview.cards.length}</span> new{" "}
+                    {preview.cards.length === 1 ? "card" : "cards"}
+                    {preview.duplicates.length > 0 && (
+                      <>
+                        , <span className="font-semibold">{preview.duplicates.length}</span> already exist
+                      </>
+                    )}
+                  </p>
+                  {preview.duplicates.length > 0 && (
+                    <label className="flex items-center gap-2 text-muted-foreground">
+                      <Checkbox
+                        checked={includeDuplicates}
+                        onCheckedChange={(checked) => setIncludeDuplicates(checked === true)}
+                      />
+                      Import duplicates anyway
+                    </label>
+                  )}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">Checking for duplicates…</p>
+              )}
+            </>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={importing}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={importing || cardsToImport.length === 0}>
+            {importing ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : null}
+            {cardsToImport.length > 0
+              ? `Import ${cardsToImport.length} ${cardsToImport.length === 1 ? "card" : "cards"}`
+              : "Import"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,179 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  CARD_TYPES,
+  CardType,
+  DEFAULT_CARD_TYPE,
+  DEFAULT_DIFFICULTY,
+  DIFFICULTIES,
+  Difficulty,
+} from "@/lib/flashcards";
+import { clozeAnswer, hasCloze } from "@/lib/cloze";
+
+export type NewFlashcard = {
+  material_id: string;
+  question: string;
+  answer: string;
+  difficulty: Difficulty;
+  card_type: CardType;
+};
+
+type NewFlashcardDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  materials: { id: string; title: string }[];
+  defaultMaterialId?: string;
+  onCreate: (card: NewFlashcard) => Promise<boolean>;
+};
+
+export const NewFlashcardDialog = ({
+  open,
+  onOpenChange,
+  materials,
+  defaultMaterialId,
+  onCreate,
+}: NewFlashcardDialogProps) => {
+  const [materialId, setMaterialId] = useState("");
+  const [question, setQuestion] = useState("");
+  const [answer, setAnswer] = useState("");
+  const [difficulty, setDifficulty] = useState<Difficulty>(DEFAULT_DIFFICULTY);
+  const [cardType, setCardType] = useState<CardType>(DEFAULT_CARD_TYPE);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setMaterialId(defaultMaterialId || materials[0]?.id || "");
+      setQuestion("");
+      setAnswer("");
+      setDifficulty(DEFAULT_DIFFICULTY);
+      setCardType(DEFAULT_CARD_TYPE);
+    }
+  }, [open, defaultMaterialId, materials]);
+
+  const handleSubmit = async () => {
+    if (!materialId) {
+      toast.error("Choose a material for this card");
+      return;
+    }
+    if (cardType === "cloze" && !hasCloze(question)) {
+      toast.error("Mark at least one deletion, e.g. {{c1::mitochondria}}");
+      return;
+    }
+    if (!question.trim() || (cardType !== "cloze" && !answer.trim())) {
+      toast.error("Question and answer cannot be empty");
+      return;
+    }
+
+    setSaving(true);
+    const created = await onCreate({
+      material_id: materialId,
+      question: question.trim(),
+      answer: cardType === "cloze" ? clozeAnswer(question) : answer.trim(),
+      difficulty,
+      card_type: cardType,
+    });
+    setSaving(false);
+
+    if (created) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>New flashcard</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label>Material</Label>
+            <Select value={materialId} onValueChange={setMaterialId}>
+              <SelectTrigger className="mt-2">
+                <SelectValue placeholder="Choose a material" />
+              </SelectTrigger>
+              <SelectContent>
+                {materials.map((material) => (
+                  <SelectItem key={material.id} value={material.id}>
+                    {material.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Card type</Label>
+            <Select value={cardType} onValueChange={(value) => setCardType(value as CardType)}>
+              <SelectTrigger className="mt-2">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CARD_TYPES.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="new-card-question">{cardType === "cloze" ? "Text" : "Question"}</Label>
+            <Input
+              id="new-card-question"
+              value={question}
+              onChange={(e) => setQuestion(e.target.value)}
+              placeholder={cardType === "cloze" ? "The {{c1::mitochondria}} is the powerhouse of the cell" : undefined}
+              className="mt-2"
+            />
+          </div>
+          {cardType !== "cloze" && (
+            <div>
+              <Label htmlFor="new-card-answer">Answer</Label>
+              <Textarea
+                id="new-card-answer"
+                value={answer}
+                onChange={(e) => setAnswer(e.target.value)}
+                className="mt-2 min-h-[100px]"
+              />
+            </div>
+          )}
+          <div>
+            <Label>Difficulty</Label>
+            <Select value={difficulty} onValueChange={(value) => setDifficulty(value as Difficulty)}>
+              <SelectTrigger className="mt-2">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DIFFICULTIES.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={saving}>
+            {saving ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : null}
+            Add card
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,37 @@
+import { memo } from "react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { REVIEW_GRADES, ReviewGrade, SchedulingState, formatInterval, scheduleReview } from "@/lib/srs";
+
+type ReviewGradeButtonsProps = {
+  card: SchedulingState;
+  disabled?: boolean;
+  // Highlights the grade computed from a typed answer
+  suggested?: ReviewGrade | null;
+  onGrade: (grade: ReviewGrade) => void;
+};
+
+export const ReviewGradeButtons = memo(({ card, disabled, suggested, onGrade }: ReviewGradeButtonsProps) => (
+  <div className="grid grid-cols-4 gap-2 fade-in-up">
+    {REVIEW_GRADES.map(({ grade, label }) => (
+      <Button
+        key={grade}
+        onClick={() => onGrade(grade)}
+        disabled={disabled}
+        variant="outline"
+        className={cn(
+          "glass h-auto py-3 flex flex-col gap-0.5 rounded-[16px] border-white/30",
+          grade === "again" && "text-destructive hover:text-destructive",
+          grade === suggested && "ring-2 ring-primary shadow-glow"
+        )}
+      >
+        <span className="text-sm font-semibold">{label}</span>
+        <span className="text-[10px] text-muted-foreground">
+          {formatInterval(scheduleReview(card, grade).interval_days)}
+        </span>
+      </Button>
+    ))}
+  </div>
+));
+
+ReviewGradeButtons.displayName = 'ReviewGradeButtons';
@@ -0,0 +1,60 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+
+type ShortcutOverlayProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+const KEYBOARD_SHORTCUTS = [
+  { keys: ["Space"], action: "Flip card" },
+  { keys: ["1", "2", "3", "4"], action: "Grade Again / Hard / Good / Easy" },
+  { keys: ["←", "→"], action: "Previous / next card (browse)" },
+  { keys: ["S"], action: "Star card" },
+  { keys: ["?"], action: "Show this help" },
+];
+
+const SWIPE_GESTURES = [
+  { gesture: "Swipe up", action: "Flip card, or grade Easy once flipped" },
+  { gesture: "Swipe left", action: "Grade Again, or next card while browsing" },
+  { gesture: "Swipe right", action: "Grade Good, or previous card while browsing" },
+];
+
+export const ShortcutOverlay = ({ open, onOpenChange }: ShortcutOverlayProps) => (
+  <Dialog open={open} onOpenChange={onOpenChange}>
+    <DialogContent className="max-w-md">
+      <DialogHeader>
+        <DialogTitle>Shortcuts</DialogTitle>
+      </DialogHeader>
+      <div className="space-y-6">
+        <div>
+          <h4 className="text-sm font-semibold text-muted-foreground mb-3">Keyboard</h4>
+          <ul className="space-y-2">
+            {KEYBOARD_SHORTCUTS.map((shortcut) => (
+              <li key={shortcut.action} className="flex items-center justify-between gap-4 text-sm">
+                <span>{shortcut.action}</span>
+                <span className="flex gap-1">
+                  {shortcut.keys.map((key) => (
+                    <kbd key={key} className="px-2 py-0.5 rounded-md border bg-muted text-xs font-mono">
+                      {key}
+                    </kbd>
+                  ))}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+        <div>
+          <h4 className="text-sm font-semibold text-muted-foreground mb-3">Touch</h4>
+          <ul className="space-y-2">
+            {SWIPE_GESTURES.map((swipe) => (
+              <li key={swipe.gesture} className="flex items-center justify-between gap-4 text-sm">
+                <span className="font-medium">{swipe.gesture}</span>
+                <span className="text-muted-foreground text-right">{swipe.action}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </DialogContent>
+  </Dialog>
+);
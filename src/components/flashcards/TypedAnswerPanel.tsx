@@ -0,0 +1,77 @@
+import { memo } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import type { AnswerMatch } from "@/lib/answerMatch";
+
+type TypedAnswerPanelProps = {
+  value: string;
+  onChange: (value: string) => void;
+  onCheck: () => void;
+  result: AnswerMatch | null;
+};
+
+export const TypedAnswerPanel = memo(({ value, onChange, onCheck, result }: TypedAnswerPanelProps) => {
+  if (!result) {
+    return (
+      <div className="space-y-3 fade-in-up">
+        <Textarea
+          autoFocus
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && !e.shiftKey) {
+              e.preventDefault();
+              onCheck();
+            }
+          }}
+          placeholder="Type your answer, then press Enter"
+          className="glass border-white/30 rounded-[16px] min-h-[80px] resize-none"
+        />
+        <Button onClick={onCheck} className="w-full rounded-[16px]">
+          Check answer
+        </Button>
+      </div>
+    );
+  }
+
+  const percentage = Math.round(result.similarity * 100);
+
+  return (
+    <Card className="glass-strong p-5 shadow-glass border-white/40 space-y-3 fade-in-up">
+      <div className="flex justify-between text-sm">
+        <span className="text-muted-foreground font-medium">Match</span>
+        <span
+          className={cn(
+            "font-bold",
+            percentage >= 70 ? "text-green-500" : percentage >= 40 ? "text-yellow-500" : "text-red-500"
+          )}
+        >
+          {percentage}%
+        </span>
+      </div>
+      <div>
+        <p className="text-xs uppercase tracking-widest text-muted-foreground font-semibold mb-1">You typed</p>
+        <p className="text-sm">{value.trim() || "—"}</p>
+      </div>
+      <div>
+        <p className="text-xs uppercase tracking-widest text-muted-foreground font-semibold mb-1">
+          Missing from your answer
+        </p>
+        <p className="text-sm leading-relaxed">
+          {result.diff.map((token, idx) => (
+            <span
+              key={idx}
+              className={cn(!token.matched && "bg-destructive/20 text-destructive rounded px-0.5")}
+            >
+              {token.word}{" "}
+            </span>
+          ))}
+        </p>
+      </div>
+    </Card>
+  );
+});
+
+TypedAnswerPanel.displayName = 'TypedAnswerPanel';
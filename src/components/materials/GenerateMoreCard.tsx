@@ -0,0 +1,195 @@
+import { useMemo, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BookOpen, ClipboardCheck, Loader2, RefreshCw, Sparkles } from "lucide-react";
+import { toast } from "sonner";
+import {
+  DEFAULT_EXTEND_COUNT,
+  ExtendableMaterial,
+  MAX_EXTEND_COUNT,
+  MIN_EXTEND_COUNT,
+  extendFlashcards,
+  extendQuizQuestions,
+  regenerateSummary,
+  regenerateSummarySection,
+  summarySections,
+} from "@/lib/materialExtend";
+
+type Action = "summary" | "section" | "flashcards" | "quiz_questions";
+
+type GenerateMoreCardProps = {
+  material: ExtendableMaterial;
+  userId: string;
+  onSummaryChange: (summary: string) => void;
+  onContentAdded: () => void;
+};
+
+const clampCount = (value: number) =>
+  Math.min(Math.max(Math.round(value) || MIN_EXTEND_COUNT, MIN_EXTEND_COUNT), MAX_EXTEND_COUNT);
+
+export const GenerateMoreCard = ({ material, userId, onSummaryChange, onContentAdded }: GenerateMoreCardProps) => {
+  const [running, setRunning] = useState<Action | null>(null);
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [cardCount, setCardCount] = useState(DEFAULT_EXTEND_COUNT);
+  const [questionCount, setQuestionCount] = useState(DEFAULT_EXTEND_COUNT);
+  const [section, setSection] = useState("0");
+  const sections = useMemo(() => summarySections(material), [material]);
+
+  const run = async (action: Action, task: () => Promise<void>, failure: string) => {
+    setRunning(action);
+    setProgress(null);
+    try {
+      await task();
+    } catch (error) {
+      console.error(`Error generating ${action}:`, error);
+      toast.error(error instanceof Error && error.message ? error.message : failure);
+    } finally {
+      setRunning(null);
+      setProgress(null);
+    }
+  };
+
+  const reportProgress = (completed: number, total: number) => {
+    if (total > 1) setProgress({ completed, total });
+  };
+
+  const handleRegenerateSummary = () =>
+    run(
+      "summary",
+      async () => {
+        onSummaryChange(await regenerateSummary(material, reportProgress));
+        toast.success("Summary regenerated");
+      },
+      "Failed to regenerate summary"
+    );
+
+  const handleRegenerateSection = () =>
+    run(
+      "section",
+      async () => {
+        onSummaryChange(await regenerateSummarySection(material, Number(section)));
+        toast.success("Section regenerated");
+      },
+      "Failed to regenerate section"
+    );
+
+  const handleAddFlashcards = () =>
+    run(
+      "flashcards",
+      async () => {
+        const added = await extendFlashcards(userId, material, clampCount(cardCount), reportProgress);
+        if (added === 0) {
+          toast.info("No new flashcards came up that this material doesn't already have");
+          return;
+        }
+        toast.success(`Added ${added} ${added === 1 ? "flashcard" : "flashcards"}`);
+        onContentAdded();
+      },
+      "Failed to generate flashcards"
+    );
+
+  const handleAddQuestions = () =>
+    run(
+      "quiz_questions",
+      async () => {
+        const added = await extendQuizQuestions(userId, material, clampCount(questionCount), reportProgress);
+        if (added === 0) {
+          toast.info("No new questions came up that the quiz doesn't already have");
+          return;
+        }
+        toast.success(`Added ${added} quiz ${added === 1 ? "question" : "questions"}`);
+        onContentAdded();
+      },
+      "Failed to generate quiz questions"
+    );
+
+  const busy = running !== null;
+  const spinner = (action: Action, Icon: typeof Sparkles) =>
+    running === action ? <Loader2 className="w-4 h-4 animate-spin mr-1" /> : <Icon className="w-4 h-4 mr-1" />;
+
+  return (
+    <Card className="glass p-6 space-y-4">
+      <div>
+        <h3 className="font-semibold flex items-center gap-2">
+          <Sparkles className="w-4 h-4 text-primary" /> Generate more
+        </h3>
+        <p className="text-xs text-muted-foreground mt-1">
+          Uses the original content again. New cards and questions skip ones this material already has.
+        </p>
+      </div>
+
+      {progress && (
+        <div className="space-y-1">
+          <Progress value={(progress.completed / progress.total) * 100} className="h-2" />
+          <p className="text-xs text-muted-foreground">
+            Section {progress.completed} of {progress.total} done
+          </p>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <p className="text-sm flex-1">Summary</p>
+        <Button size="sm" variant="outline" onClick={handleRegenerateSummary} disabled={busy}>
+          {spinner("summary", RefreshCw)} Regenerate
+        </Button>
+      </div>
+
+      {sections.length > 0 && (
+        <div className="flex items-center gap-2">
+          <Select value={section} onValueChange={setSection} disabled={busy}>
+            <SelectTrigger className="flex-1 min-w-0">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {sections.map((option) => (
+                <SelectItem key={option.index} value={String(option.index)}>
+                  {option.index + 1}. {option.heading}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" variant="outline" onClick={handleRegenerateSection} disabled={busy}>
+            {spinner("section", RefreshCw)} Regenerate section
+          </Button>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <p className="text-sm flex-1">Flashcards</p>
+        <Input
+          type="number"
+          min={MIN_EXTEND_COUNT}
+          max={MAX_EXTEND_COUNT}
+          value={cardCount}
+          onChange={(e) => setCardCount(Number(e.target.value))}
+          className="w-20"
+          disabled={busy}
+          aria-label="Number of flashcards"
+        />
+        <Button size="sm" variant="outline" onClick={handleAddFlashcards} disabled={busy}>
+          {spinner("flashcards", BookOpen)} Add
+        </Button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <p className="text-sm flex-1">Quiz questions</p>
+        <Input
+          type="number"
+          min={MIN_EXTEND_COUNT}
+          max={MAX_EXTEND_COUNT}
+          value={questionCount}
+          onChange={(e) => setQuestionCount(Number(e.target.value))}
+          className="w-20"
+          disabled={busy}
+          aria-label="Number of quiz questions"
+        />
+        <Button size="sm" variant="outline" onClick={handleAddQuestions} disabled={busy}>
+          {spinner("quiz_questions", ClipboardCheck)} Add
+        </Button>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,223 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Check, Loader2, Plus, X } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import type { QuestionType } from "@/lib/quizGrading";
+import {
+  MAX_OPTIONS,
+  MIN_OPTIONS,
+  QUESTION_TYPES,
+  QuestionDraft,
+  emptyDraft,
+  validateDraft,
+} from "@/lib/quizEditor";
+
+type QuestionEditorDialogProps = {
+  // The question being edited, or null to create a new one; the dialog is closed when undefined
+  initial: QuestionDraft | null | undefined;
+  onOpenChange: (open: boolean) => void;
+  onSave: (draft: QuestionDraft) => Promise<boolean>;
+};
+
+export const QuestionEditorDialog = ({ initial, onOpenChange, onSave }: QuestionEditorDialogProps) => {
+  const [draft, setDraft] = useState<QuestionDraft>(emptyDraft);
+  const [saving, setSaving] = useState(false);
+
+  const open = initial !== undefined;
+
+  useEffect(() => {
+    if (initial !== undefined) setDraft(initial ?? emptyDraft());
+  }, [initial]);
+
+  const update = (changes: Partial<QuestionDraft>) => setDraft((prev) => ({ ...prev, ...changes }));
+
+  const changeType = (type: QuestionType) => {
+    setDraft((prev) => ({
+      ...prev,
+      question_type: type,
+      options: type === "multiple_choice" && prev.options.length === 0 ? emptyDraft().options : prev.options,
+      // An answer only carries over when it still makes sense for the new type
+      correct_answer: type === "short_answer" && prev.question_type === "short_answer" ? prev.correct_answer : "",
+    }));
+  };
+
+  // The correct option is stored by text, so it follows edits to that option
+  const updateOption = (index: number, value: string) => {
+    setDraft((prev) => ({
+      ...prev,
+      options: prev.options.map((option, i) => (i === index ? value : option)),
+      // Follow the edit only when this option is the chosen answer, not when both are still blank
+      correct_answer:
+        prev.correct_answer && prev.options[index] === prev.correct_answer ? value : prev.correct_answer,
+    }));
+  };
+
+  const removeOption = (index: number) => {
+    setDraft((prev) => ({
+      ...prev,
+      options: prev.options.filter((_, i) => i !== index),
+      correct_answer: prev.options[index] === prev.correct_answer ? "" : prev.correct_answer,
+    }));
+  };
+
+  const handleSubmit = async () => {
+    const problem = validateDraft(draft);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+
+    setSaving(true);
+    const saved = await onSave(draft);
+    setSaving(false);
+
+    if (saved) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{initial ? "Edit question" : "New question"}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label>Question type</Label>
+            <Select value={draft.question_type} onValueChange={(value) => changeType(value as QuestionType)}>
+              <SelectTrigger className="mt-2">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {QUESTION_TYPES.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="question-text">{draft.question_type === "true_false" ? "Statement" : "Question"}</Label>
+            <Textarea
+              id="question-text"
+              value={draft.question_text}
+              onChange={(e) => update({ question_text: e.target.value })}
+              className="mt-2 min-h-[80px]"
+            />
+          </div>
+
+          {draft.question_type === "multiple_choice" && (
+            <div>
+              <Label>Options</Label>
+              <p className="text-xs text-muted-foreground mt-1">Select the correct option</p>
+              <RadioGroup
+                value={draft.correct_answer}
+                onValueChange={(value) => update({ correct_answer: value })}
+                className="mt-2 space-y-1"
+              >
+                {draft.options.map((option, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <RadioGroupItem
+                      value={option}
+                      id={`question-option-${index}`}
+                      disabled={!option.trim()}
+                      aria-label={`Option ${index + 1} is correct`}
+                    />
+                    <Input
+                      value={option}
+                      onChange={(e) => updateOption(index, e.target.value)}
+                      placeholder={`Option ${String.fromCharCode(65 + index)}`}
+                    />
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => removeOption(index)}
+                      disabled={draft.options.length <= MIN_OPTIONS}
+                      title="Remove option"
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </RadioGroup>
+              {draft.options.length < MAX_OPTIONS && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => update({ options: [...draft.options, ""] })}
+                  className="mt-2"
+                >
+                  <Plus className="w-4 h-4 mr-1" /> Add option
+                </Button>
+              )}
+            </div>
+          )}
+
+          {draft.question_type === "true_false" && (
+            <div>
+              <Label>Answer</Label>
+              <div className="grid grid-cols-2 gap-3 mt-2">
+                {["True", "False"].map((option) => (
+                  <Button
+                    key={option}
+                    type="button"
+                    variant={draft.correct_answer === option ? "default" : "outline"}
+                    onClick={() => update({ correct_answer: option })}
+                    className={cn(draft.correct_answer === option && "shadow-glow")}
+                  >
+                    {option === "True" ? <Check className="w-4 h-4 mr-2" /> : <X className="w-4 h-4 mr-2" />}
+                    {option}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {draft.question_type === "short_answer" && (
+            <div>
+              <Label htmlFor="question-answer">Model answer</Label>
+              <Textarea
+                id="question-answer"
+                value={draft.correct_answer}
+                onChange={(e) => update({ correct_answer: e.target.value })}
+                className="mt-2 min-h-[80px]"
+              />
+            </div>
+          )}
+
+          <div>
+            <Label htmlFor="question-explanation">Explanation (optional)</Label>
+            <Textarea
+              id="question-explanation"
+              value={draft.explanation}
+              onChange={(e) => update({ explanation: e.target.value })}
+              className="mt-2 min-h-[80px]"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={saving}>
+            {saving ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : null}
+            {initial ? "Save question" : "Add question"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
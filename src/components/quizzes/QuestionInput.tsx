@@ -0,0 +1,90 @@
+import { memo } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Check, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { GradableQuestion, parseTrueFalse, questionOptions, questionType } from "@/lib/quizGrading";
+import { shuffleOptions } from "@/lib/quizShuffle";
+
+type QuestionInputProps = {
+  question: GradableQuestion & { id: string };
+  value: string;
+  onChange: (value: string) => void;
+  // Attempt seed for the option order; options keep their stored order when null
+  shuffleSeed?: number | null;
+  // Shows the given answer without letting it change, e.g. when reviewing a submitted attempt
+  readOnly?: boolean;
+};
+
+type AnswerInputProps = Omit<QuestionInputProps, "question" | "shuffleSeed"> & { questionId: string };
+
+const MultipleChoiceInput = ({ questionId, options, value, onChange, readOnly }: AnswerInputProps & { options: string[] }) => (
+  <RadioGroup value={value} onValueChange={onChange} disabled={readOnly}>
+    {options.map((option, index) => (
+      <div key={index} className="flex items-center space-x-2 p-3 rounded-lg hover:bg-accent/50 cursor-pointer">
+        <RadioGroupItem value={option} id={`${questionId}-option-${index}`} />
+        <Label htmlFor={`${questionId}-option-${index}`} className="flex-1 cursor-pointer">
+          {option}
+        </Label>
+      </div>
+    ))}
+  </RadioGroup>
+);
+
+const TrueFalseInput = ({ value, onChange, readOnly }: AnswerInputProps) => {
+  const selected = parseTrueFalse(value);
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      {[true, false].map((option) => (
+        <Button
+          key={String(option)}
+          type="button"
+          variant={selected === option ? "default" : "outline"}
+          onClick={() => onChange(option ? "True" : "False")}
+          disabled={readOnly}
+          className={cn("h-16 text-base", selected === option && "shadow-glow")}
+        >
+          {option ? <Check className="w-5 h-5 mr-2" /> : <X className="w-5 h-5 mr-2" />}
+          {option ? "True" : "False"}
+        </Button>
+      ))}
+    </div>
+  );
+};
+
+const ShortAnswerInput = ({ questionId, value, onChange, readOnly }: AnswerInputProps) => (
+  <div className="space-y-2">
+    <Label htmlFor={`${questionId}-answer`} className="text-sm text-muted-foreground">
+      Your answer
+    </Label>
+    <Textarea
+      id={`${questionId}-answer`}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      readOnly={readOnly}
+      placeholder="Type your answer in your own words"
+      className="min-h-[120px]"
+    />
+  </div>
+);
+
+// Options are answered by their text, so grading doesn't depend on where an option is shown
+export const QuestionInput = memo(({ question, value, onChange, shuffleSeed = null, readOnly = false }: QuestionInputProps) => {
+  const props = { questionId: question.id, value, onChange, readOnly };
+
+  switch (questionType(question)) {
+    case "multiple_choice":
+      return (
+        <MultipleChoiceInput {...props} options={shuffleOptions(questionOptions(question), shuffleSeed, question.id)} />
+      );
+    case "true_false":
+      return <TrueFalseInput {...props} />;
+    case "short_answer":
+      return <ShortAnswerInput {...props} />;
+  }
+});
+
+QuestionInput.displayName = 'QuestionInput';
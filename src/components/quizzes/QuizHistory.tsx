@@ -0,0 +1,133 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { ArrowLeft, History, Loader2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { AttemptSummary, fetchAttempts } from "@/lib/quizAttempts";
+
+type QuizHistoryProps = {
+  userId: string;
+  quiz: { id: string; title: string };
+  onBack: () => void;
+  onReview: (attempt: AttemptSummary) => void;
+  onRetryWrong: (attempt: AttemptSummary) => void;
+};
+
+const chartConfig = {
+  score: { label: "Score", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleDateString(undefined, { month: "short", day: "numeric" }) : "";
+
+export const QuizHistory = ({ userId, quiz, onBack, onReview, onRetryWrong }: QuizHistoryProps) => {
+  const [attempts, setAttempts] = useState<AttemptSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadAttempts = useCallback(async () => {
+    try {
+      setAttempts(await fetchAttempts(userId, quiz.id));
+    } catch (error) {
+      console.error("Error fetching quiz attempts:", error);
+      toast.error("Failed to load quiz history");
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, quiz.id]);
+
+  useEffect(() => {
+    loadAttempts();
+  }, [loadAttempts]);
+
+  // Retries only cover the questions missed earlier, so they would distort the trend
+  const trend = useMemo(
+    () =>
+      attempts
+        .filter((attempt) => !attempt.retry_of)
+        .reverse()
+        .map((attempt) => ({ label: formatDate(attempt.completed_at), score: Math.round(attempt.score ?? 0) })),
+    [attempts]
+  );
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-4 pb-24">
+      <div className="max-w-2xl mx-auto pt-8 space-y-4">
+        <div className="flex items-center gap-3 mb-2">
+          <Button size="sm" variant="ghost" onClick={onBack}>
+            <ArrowLeft className="w-4 h-4 mr-1" /> Quizzes
+          </Button>
+          <h2 className="text-xl font-bold truncate">{quiz.title}</h2>
+        </div>
+
+        {attempts.length === 0 ? (
+          <Card className="glass p-8 text-center">
+            <History className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
+            <h3 className="text-lg font-semibold mb-2">No attempts yet</h3>
+            <p className="text-muted-foreground text-sm">
+              Take this quiz to start tracking your progress
+            </p>
+          </Card>
+        ) : (
+          <>
+            {trend.length > 1 && (
+              <Card className="glass p-6">
+                <h3 className="font-semibold mb-4">Score trend</h3>
+                <ChartContainer config={chartConfig} className="h-40 w-full">
+                  <LineChart data={trend}>
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} fontSize={10} interval="preserveStartEnd" />
+                    <YAxis domain={[0, 100]} tickLine={false} axisLine={false} fontSize={10} width={28} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Line dataKey="score" stroke="var(--color-score)" strokeWidth={2} dot={{ r: 3 }} />
+                  </LineChart>
+                </ChartContainer>
+              </Card>
+            )}
+
+            {attempts.map((attempt) => {
+              const score = Math.round(attempt.score ?? 0);
+
+              return (
+                <Card key={attempt.id} className="glass">
+                  <CardHeader className="flex flex-row items-center justify-between gap-3 space-y-0">
+                    <div className="flex-1 min-w-0">
+                      <CardTitle className="text-lg flex items-center gap-2">
+                        {score}%
+                        {attempt.retry_of && <Badge variant="secondary">Retry</Badge>}
+                      </CardTitle>
+                      <CardDescription>
+                        {attempt.completed_at ? new Date(attempt.completed_at).toLocaleString() : "Unknown date"}
+                        {" · "}
+                        {attempt.total_questions} {attempt.total_questions === 1 ? "question" : "questions"}
+                      </CardDescription>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button size="sm" variant="outline" onClick={() => onReview(attempt)}>
+                        Review
+                      </Button>
+                      {score < 100 && (
+                        <Button size="sm" onClick={() => onRetryWrong(attempt)}>
+                          <RotateCcw className="w-4 h-4 mr-1" /> Retry wrong
+                        </Button>
+                      )}
+                    </div>
+                  </CardHeader>
+                </Card>
+              );
+            })}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
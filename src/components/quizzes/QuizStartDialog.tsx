@@ -0,0 +1,136 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Play } from "lucide-react";
+import {
+  DEFAULT_QUESTION_SECONDS,
+  DEFAULT_QUIZ_MINUTES,
+  TimerMode,
+  TimerSettings,
+  UNTIMED,
+} from "@/lib/quizTimer";
+
+type QuizStartDialogProps = {
+  quizTitle: string | null;
+  // Preselected timer, e.g. the time limit a mock exam was built with
+  defaultSettings: TimerSettings;
+  // An unfinished run of this quiz exists and starting over will discard it
+  hasProgress: boolean;
+  onOpenChange: (open: boolean) => void;
+  onStart: (settings: TimerSettings, shuffle: boolean) => void;
+};
+
+const MODES: { value: TimerMode; label: string; description: string }[] = [
+  { value: "off", label: "Practice", description: "No time limit" },
+  { value: "quiz", label: "Timed quiz", description: "One countdown for the whole quiz" },
+  { value: "question", label: "Timed questions", description: "A countdown for every question, no going back" },
+];
+
+export const QuizStartDialog = ({ quizTitle, defaultSettings, hasProgress, onOpenChange, onStart }: QuizStartDialogProps) => {
+  const [mode, setMode] = useState<TimerMode>("off");
+  const [shuffle, setShuffle] = useState(true);
+  const [quizMinutes, setQuizMinutes] = useState(String(DEFAULT_QUIZ_MINUTES));
+  const [questionSeconds, setQuestionSeconds] = useState(String(DEFAULT_QUESTION_SECONDS));
+
+  const { mode: defaultMode, limitSeconds: defaultLimit } = defaultSettings;
+  useEffect(() => {
+    if (!quizTitle) return;
+
+    setMode(defaultMode);
+    if (defaultMode === "quiz") setQuizMinutes(String(Math.round(defaultLimit / 60)));
+    if (defaultMode === "question") setQuestionSeconds(String(defaultLimit));
+  }, [quizTitle, defaultMode, defaultLimit]);
+
+  const limitSeconds = mode === "quiz" ? Number(quizMinutes) * 60 : Number(questionSeconds);
+  const isValid = mode === "off" || (Number.isFinite(limitSeconds) && limitSeconds > 0);
+
+  const handleStart = () => {
+    onStart(mode === "off" ? UNTIMED : { mode, limitSeconds: Math.round(limitSeconds) }, shuffle);
+  };
+
+  return (
+    <Dialog open={quizTitle !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{quizTitle}</DialogTitle>
+          <DialogDescription>Choose how you want to take this quiz.</DialogDescription>
+        </DialogHeader>
+        <RadioGroup value={mode} onValueChange={(value) => setMode(value as TimerMode)} className="space-y-1">
+          {MODES.map((option) => (
+            <div key={option.value} className="flex items-start space-x-2 p-3 rounded-lg hover:bg-accent/50">
+              <RadioGroupItem value={option.value} id={`timer-${option.value}`} className="mt-1" />
+              <Label htmlFor={`timer-${option.value}`} className="flex-1 cursor-pointer">
+                <span className="font-semibold">{option.label}</span>
+                <span className="block text-xs text-muted-foreground font-normal">{option.description}</span>
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        {mode === "quiz" && (
+          <div>
+            <Label htmlFor="quiz-minutes">Minutes for the whole quiz</Label>
+            <Input
+              id="quiz-minutes"
+              type="number"
+              min={1}
+              value={quizMinutes}
+              onChange={(e) => setQuizMinutes(e.target.value)}
+              className="mt-2"
+            />
+          </div>
+        )}
+        {mode === "question" && (
+          <div>
+            <Label htmlFor="question-seconds">Seconds per question</Label>
+            <Input
+              id="question-seconds"
+              type="number"
+              min={5}
+              value={questionSeconds}
+              onChange={(e) => setQuestionSeconds(e.target.value)}
+              className="mt-2"
+            />
+          </div>
+        )}
+        {mode !== "off" && (
+          <p className="text-xs text-muted-foreground">
+            The quiz pauses if you switch tabs and is submitted automatically when time runs out.
+          </p>
+        )}
+        <div className="flex items-center justify-between gap-3">
+          <Label htmlFor="quiz-shuffle" className="cursor-pointer">
+            Shuffle questions and answers
+          </Label>
+          <Switch id="quiz-shuffle" checked={shuffle} onCheckedChange={setShuffle} />
+        </div>
+
+        {hasProgress && (
+          <p className="text-xs text-amber-500">
+            Starting over discards your unfinished attempt at this quiz.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleStart} disabled={!isValid}>
+            <Play className="w-4 h-4 mr-2" /> Start
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
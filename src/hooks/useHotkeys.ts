@@ -0,0 +1,35 @@
+import { useEffect, useRef } from "react";
+
+export type HotkeyMap = Record<string, (event: KeyboardEvent) => void>;
+
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+/**
+ * Binds single-key shortcuts (matched on `event.key`, with " " exposed as
+ * "Space") while ignoring keystrokes meant for text fields.
+ */
+export const useHotkeys = (hotkeys: HotkeyMap, enabled = true) => {
+  const hotkeysRef = useRef(hotkeys);
+  hotkeysRef.current = hotkeys;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey) return;
+      if (isTypingTarget(event.target)) return;
+
+      const key = event.key === " " ? "Space" : event.key;
+      const handler = hotkeysRef.current[key] ?? hotkeysRef.current[key.toLowerCase()];
+      if (!handler) return;
+
+      event.preventDefault();
+      handler(event);
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [enabled]);
+};
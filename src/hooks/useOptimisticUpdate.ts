@@ -0,0 +1,67 @@
+import { Dispatch, SetStateAction, useCallback } from "react";
+import { toast } from "sonner";
+
+type Identified = { id: string };
+
+/**
+ * Undoes one optimistic change on the current list, touching only the items
+ * that change added, edited, moved or removed, so other changes made while
+ * it was saving are kept.
+ */
+const rollback = <T extends Identified>(current: T[], previous: T[], applied: T[]) => {
+  const before = new Map(previous.map((item) => [item.id, item]));
+  const after = new Map(applied.map((item) => [item.id, item]));
+
+  // Items the change added are dropped again
+  const items = current.filter((item) => before.has(item.id) || !after.has(item.id));
+
+  // Edited or moved items get their earlier values back, in their earlier order
+  const changed = previous.filter((item) => after.has(item.id) && after.get(item.id) !== item);
+  const changedIds = new Set(changed.map((item) => item.id));
+  const slots = items.flatMap((item, index) => (changedIds.has(item.id) ? [index] : []));
+  const stillShown = changed.filter((item) => items.some((shown) => shown.id === item.id));
+  slots.forEach((slot, index) => {
+    items[slot] = stillShown[index];
+  });
+
+  // Removed items are put back where they were
+  previous.forEach((item, index) => {
+    if (!after.has(item.id) && !items.some((shown) => shown.id === item.id)) {
+      items.splice(Math.min(index, items.length), 0, item);
+    }
+  });
+  return items;
+};
+
+/**
+ * Returns a function that applies `update` to the list right away and
+ * persists in the background. If Supabase rejects the change, only the items
+ * it touched are rolled back. `update` should return untouched items as the
+ * same objects, since that is how changed items are told apart.
+ */
+export const useOptimisticUpdate = <T extends Identified>(setItems: Dispatch<SetStateAction<T[]>>) =>
+  useCallback(
+    async (
+      update: (items: T[]) => T[],
+      persist: () => PromiseLike<{ error: unknown }>,
+      errorMessage: string
+    ) => {
+      let previous: T[] | null = null;
+      let applied: T[] | null = null;
+      setItems((items) => {
+        previous = items;
+        applied = update(items);
+        return applied;
+      });
+
+      const { error } = await persist();
+      if (error) {
+        console.error(errorMessage, error);
+        if (previous && applied) setItems((items) => rollback(items, previous, applied));
+        toast.error(errorMessage);
+        return false;
+      }
+      return true;
+    },
+    [setItems]
+  );
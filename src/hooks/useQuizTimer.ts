@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+const TICK_MS = 250;
+
+type QuizTimerOptions = {
+  active: boolean;
+  // Stay paused after the tab is hidden until the student explicitly resumes
+  lockOnHidden: boolean;
+};
+
+/**
+ * Measures active time on a quiz. Time spent in another tab never counts; in
+ * locked mode the quiz also stays paused until the student comes back and
+ * resumes, so the question can't be studied while the clock is stopped.
+ */
+export const useQuizTimer = ({ active, lockOnHidden }: QuizTimerOptions) => {
+  const accumulated = useRef(0);
+  const startedAt = useRef<number | null>(null);
+  const [paused, setPaused] = useState(false);
+  const [hidden, setHidden] = useState(() => document.hidden);
+  const [tabSwitches, setTabSwitches] = useState(0);
+  const [, setTick] = useState(0);
+
+  const running = active && !paused && !hidden;
+
+  const getElapsedMs = useCallback(
+    () => accumulated.current + (startedAt.current === null ? 0 : Date.now() - startedAt.current),
+    []
+  );
+
+  const stopClock = useCallback(() => {
+    if (startedAt.current === null) return;
+    accumulated.current += Date.now() - startedAt.current;
+    startedAt.current = null;
+  }, []);
+
+  useEffect(() => {
+    if (!running) return;
+
+    startedAt.current = Date.now();
+    const interval = setInterval(() => setTick((tick) => tick + 1), TICK_MS);
+    return () => {
+      clearInterval(interval);
+      stopClock();
+    };
+  }, [running, stopClock]);
+
+  useEffect(() => {
+    if (!active) return;
+
+    setHidden(document.hidden);
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        // Stop the clock at the moment the tab is hidden, not on the next render
+        stopClock();
+        setTabSwitches((count) => count + 1);
+        if (lockOnHidden) setPaused(true);
+      }
+      setHidden(document.hidden);
+    };
+
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => document.removeEventListener("visibilitychange", handleVisibilityChange);
+  }, [active, lockOnHidden, stopClock]);
+
+  const reset = useCallback((initialMs = 0) => {
+    accumulated.current = initialMs;
+    if (startedAt.current !== null) startedAt.current = Date.now();
+    setPaused(false);
+    setTabSwitches(0);
+  }, []);
+
+  return {
+    elapsedMs: getElapsedMs(),
+    getElapsedMs,
+    paused,
+    tabSwitches,
+    pause: () => {
+      stopClock();
+      setPaused(true);
+    },
+    resume: () => setPaused(false),
+    reset,
+  };
+};
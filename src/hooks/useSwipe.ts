@@ -0,0 +1,37 @@
+import { useRef } from "react";
+
+type SwipeHandlers = {
+  onSwipeLeft?: () => void;
+  onSwipeRight?: () => void;
+  onSwipeUp?: () => void;
+};
+
+// Minimum travel in px before a touch counts as a swipe rather than a tap
+const SWIPE_THRESHOLD = 50;
+
+export const useSwipe = ({ onSwipeLeft, onSwipeRight, onSwipeUp }: SwipeHandlers) => {
+  const start = useRef<{ x: number; y: number } | null>(null);
+
+  const onTouchStart = (event: React.TouchEvent) => {
+    const touch = event.touches[0];
+    start.current = { x: touch.clientX, y: touch.clientY };
+  };
+
+  const onTouchEnd = (event: React.TouchEvent) => {
+    if (!start.current) return;
+
+    const touch = event.changedTouches[0];
+    const dx = touch.clientX - start.current.x;
+    const dy = touch.clientY - start.current.y;
+    start.current = null;
+
+    if (Math.abs(dx) > Math.abs(dy)) {
+      if (dx <= -SWIPE_THRESHOLD) onSwipeLeft?.();
+      else if (dx >= SWIPE_THRESHOLD) onSwipeRight?.();
+    } else if (dy <= -SWIPE_THRESHOLD) {
+      onSwipeUp?.();
+    }
+  };
+
+  return { onTouchStart, onTouchEnd };
+};
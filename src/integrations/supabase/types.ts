@@ -14,9 +14,102 @@ export type Database = {
   }
   public: {
     Tables: {
+      attempt_answers: {
+        Row: {
+          attempt_id: string
+          created_at: string | null
+          feedback: Json | null
+          given_answer: string | null
+          id: string
+          is_correct: boolean
+          question_id: string
+          time_spent_ms: number | null
+          user_id: string
+        }
+        Insert: {
+          attempt_id: string
+          created_at?: string | null
+          feedback?: Json | null
+          given_answer?: string | null
+          id?: string
+          is_correct?: boolean
+          question_id: string
+          time_spent_ms?: number | null
+          user_id: string
+        }
+        Update: {
+          attempt_id?: string
+          created_at?: string | null
+          feedback?: Json | null
+          given_answer?: string | null
+          id?: string
+          is_correct?: boolean
+          question_id?: string
+          time_spent_ms?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attempt_answers_attempt_id_fkey"
+            columns: ["attempt_id"]
+            isOneToOne: false
+            referencedRelation: "quiz_attempts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attempt_answers_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      flashcard_reviews: {
+        Row: {
+          flashcard_id: string
+          grade: string
+          id: string
+          new_interval: number
+          previous_interval: number
+          response_time_ms: number | null
+          reviewed_at: string | null
+          user_id: string
+        }
+        Insert: {
+          flashcard_id: string
+          grade: string
+          id?: string
+          new_interval?: number
+          previous_interval?: number
+          response_time_ms?: number | null
+          reviewed_at?: string | null
+          user_id: string
+        }
+        Update: {
+          flashcard_id?: string
+          grade?: string
+          id?: string
+          new_interval?: number
+          previous_interval?: number
+          response_time_ms?: number | null
+          reviewed_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "flashcard_reviews_flashcard_id_fkey"
+            columns: ["flashcard_id"]
+            isOneToOne: false
+            referencedRelation: "flashcards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       flashcards: {
         Row: {
           answer: string
+          card_type: string
           created_at: string | null
           difficulty: string | null
           ease_factor: number | null
@@ -32,6 +125,7 @@ export type Database = {
         }
         Insert: {
           answer: string
+          card_type?: string
           created_at?: string | null
           difficulty?: string | null
           ease_factor?: number | null
@@ -47,6 +141,7 @@ export type Database = {
         }
         Update: {
           answer?: string
+          card_type?: string
           created_at?: string | null
           difficulty?: string | null
           ease_factor?: number | null
@@ -187,6 +282,7 @@ export type Database = {
           explanation: string | null
           id: string
           options: Json | null
+          position: number
           question_text: string
           question_type: string
           quiz_id: string
@@ -197,6 +293,7 @@ export type Database = {
           explanation?: string | null
           id?: string
           options?: Json | null
+          position?: number
           question_text: string
           question_type: string
           quiz_id: string
@@ -207,6 +304,7 @@ export type Database = {
           explanation?: string | null
           id?: string
           options?: Json | null
+          position?: number
           question_text?: string
           question_type?: string
           quiz_id?: string
@@ -225,31 +323,53 @@ export type Database = {
         Row: {
           completed_at: string | null
           id: string
+          progress: Json | null
           quiz_id: string
+          retry_of: string | null
           score: number | null
+          shuffle_seed: number | null
+          status: string
           time_taken: number | null
           total_questions: number | null
+          updated_at: string | null
           user_id: string
         }
         Insert: {
           completed_at?: string | null
           id?: string
+          progress?: Json | null
           quiz_id: string
+          retry_of?: string | null
           score?: number | null
+          shuffle_seed?: number | null
+          status?: string
           time_taken?: number | null
           total_questions?: number | null
+          updated_at?: string | null
           user_id: string
         }
         Update: {
           completed_at?: string | null
           id?: string
+          progress?: Json | null
           quiz_id?: string
+          retry_of?: string | null
           score?: number | null
+          shuffle_seed?: number | null
+          status?: string
           time_taken?: number | null
           total_questions?: number | null
+          updated_at?: string | null
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "quiz_attempts_retry_of_fkey"
+            columns: ["retry_of"]
+            isOneToOne: false
+            referencedRelation: "quiz_attempts"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "quiz_attempts_quiz_id_fkey"
             columns: ["quiz_id"]
@@ -264,6 +384,7 @@ export type Database = {
           created_at: string | null
           id: string
           material_id: string | null
+          time_limit_seconds: number | null
           title: string
           user_id: string
         }
@@ -271,6 +392,7 @@ export type Database = {
           created_at?: string | null
           id?: string
           material_id?: string | null
+          time_limit_seconds?: number | null
           title: string
           user_id: string
         }
@@ -278,6 +400,7 @@ export type Database = {
           created_at?: string | null
           id?: string
           material_id?: string | null
+          time_limit_seconds?: number | null
           title?: string
           user_id?: string
         }
@@ -291,12 +414,98 @@ export type Database = {
           },
         ]
       }
+      user_preferences: {
+        Row: {
+          created_at: string | null
+          dark_mode: boolean | null
+          id: string
+          new_cards_per_day: number | null
+          theme: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          dark_mode?: boolean | null
+          id?: string
+          new_cards_per_day?: number | null
+          theme?: string | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          dark_mode?: boolean | null
+          id?: string
+          new_cards_per_day?: number | null
+          theme?: string | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      flashcard_leeches: {
+        Args: {
+          p_min_failures: number
+        }
+        Returns: {
+          failures: number
+          flashcard_id: string
+        }[]
+      }
+      new_cards_studied_since: {
+        Args: {
+          p_since: string
+        }
+        Returns: number
+      }
+      record_flashcard_review: {
+        Args: {
+          p_ease_factor: number
+          p_flashcard_id: string
+          p_grade: string
+          p_interval_days: number
+          p_next_review_date: string
+          p_previous_interval: number
+          p_response_time_ms: number | null
+          p_review_count: number
+        }
+        Returns: undefined
+      }
+      reorder_quiz_questions: {
+        Args: {
+          p_question_ids: string[]
+          p_quiz_id: string
+        }
+        Returns: undefined
+      }
+      save_generated_material: {
+        Args: {
+          p_content: string
+          p_file_url: string | null
+          p_generated: Json
+          p_source_type: string
+          p_title: string
+        }
+        Returns: Json
+      }
+      save_quiz_attempt: {
+        Args: {
+          p_answers: Json
+          p_in_progress_id: string | null
+          p_quiz_id: string
+          p_retry_of: string | null
+          p_score: number
+          p_shuffle_seed: number | null
+          p_time_taken: number
+        }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
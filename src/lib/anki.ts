@@ -0,0 +1,368 @@
+import JSZip from "jszip";
+import type { SqlJsStatic } from "sql.js";
+import sqlWasmUrl from "sql.js/dist/sql-wasm-browser.wasm?url";
+import { DEFAULT_EASE_FACTOR } from "@/lib/srs";
+import type { ImportRow, ImportSource, TransferCard } from "@/lib/flashcardTransfer";
+
+// Anki packages are a zip holding a SQLite collection in the legacy (schema 11)
+// layout, which every Anki release from 2.1 onwards can read and write.
+
+const FIELD_SEPARATOR = "\x1f";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Anki's `due` holds days since collection creation for review cards, but a
+// unix timestamp in seconds for cards in (re)learning
+const TIMESTAMP_DUE_THRESHOLD = 1_000_000_000;
+
+const ANKI_CARD_TYPE = {
+  new: 0,
+  learning: 1,
+  review: 2,
+} as const;
+
+const CLOZE_MODEL_TYPE = 1;
+
+// Stable ids so repeated exports update the same note types inside Anki
+const BASIC_MODEL_ID = 1731000000001;
+const REVERSED_MODEL_ID = 1731000000002;
+const CLOZE_MODEL_ID = 1731000000003;
+
+// Anki's own tag for marked notes, which is the closest match to starring
+const STARRED_TAG = "marked";
+const DIFFICULTY_TAG_PREFIX = "difficulty::";
+
+const SCHEMA = `
+  create table col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+  create table notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+  create table cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+  create table revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+  create table graves (usn integer not null, oid integer not null, type integer not null);
+  create index ix_notes_usn on notes (usn);
+  create index ix_cards_usn on cards (usn);
+  create index ix_revlog_usn on revlog (usn);
+  create index ix_cards_nid on cards (nid);
+  create index ix_cards_sched on cards (did, queue, due);
+  create index ix_revlog_cid on revlog (cid);
+  create index ix_notes_csum on notes (csum);
+`;
+
+const LATEX_PRE =
+  "\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n" +
+  "\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n";
+
+const CARD_CSS = ".card { font-family: arial; font-size: 20px; text-align: center; color: black; background-color: white; }";
+
+const DECK_CONF = {
+  1: {
+    id: 1,
+    name: "Default",
+    mod: 0,
+    usn: 0,
+    maxTaken: 60,
+    autoplay: true,
+    timer: 0,
+    replayq: true,
+    dyn: false,
+    new: { bury: false, delays: [1, 10], initialFactor: 2500, ints: [1, 4, 0], order: 1, perDay: 20 },
+    lapse: { delays: [10], leechAction: 1, leechFails: 8, minInt: 1, mult: 0 },
+    rev: { bury: false, ease4: 1.3, ivlFct: 1, maxIvl: 36500, perDay: 200, hardFactor: 1.2 },
+  },
+};
+
+type AnkiModel = {
+  id: number;
+  name: string;
+  type: number;
+  flds: { name: string; ord: number }[];
+  tmpls: { name: string; ord: number; qfmt: string; afmt: string }[];
+};
+
+let sqlJs: Promise<SqlJsStatic> | null = null;
+
+// sql.js is only fetched the first time a package is read or written
+const loadSqlJs = () => {
+  if (!sqlJs) {
+    sqlJs = import("sql.js").then(({ default: initSqlJs }) => initSqlJs({ locateFile: () => sqlWasmUrl }));
+  }
+  return sqlJs;
+};
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/\n/g, "<br>");
+
+const htmlToText = (html: string) => {
+  const withBreaks = html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(div|p|li)>/gi, "\n")
+    .replace(/\[sound:[^\]]*\]/g, "");
+  const text = new DOMParser().parseFromString(withBreaks, "text/html").body.textContent ?? "";
+  return text.replace(/\n{3,}/g, "\n\n").trim();
+};
+
+// Anki's duplicate check compares this checksum of the first field
+const fieldChecksum = async (text: string) => {
+  const digest = await crypto.subtle.digest("SHA-1", new TextEncoder().encode(text));
+  const hex = Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+  return parseInt(hex.slice(0, 8), 16);
+};
+
+const buildModel = (
+  id: number,
+  name: string,
+  type: number,
+  fields: string[],
+  template: { qfmt: string; afmt: string },
+  deckId: number,
+  mod: number
+) => ({
+  id,
+  name,
+  type,
+  mod,
+  usn: -1,
+  sortf: 0,
+  did: deckId,
+  flds: fields.map((field, ord) => ({ name: field, ord, sticky: false, rtl: false, font: "Arial", size: 20, media: [] })),
+  tmpls: [{ name: type === CLOZE_MODEL_TYPE ? "Cloze" : "Card 1", ord: 0, ...template, bqfmt: "", bafmt: "", did: null }],
+  css: CARD_CSS,
+  latexPre: LATEX_PRE,
+  latexPost: "\\end{document}",
+  latexsvg: false,
+  tags: [],
+  vers: [],
+});
+
+const buildDeck = (id: number, name: string, mod: number) => ({
+  id,
+  name,
+  mod,
+  usn: -1,
+  desc: "",
+  dyn: 0,
+  conf: 1,
+  collapsed: false,
+  browserCollapsed: false,
+  extendNew: 0,
+  extendRev: 0,
+  newToday: [0, 0],
+  revToday: [0, 0],
+  lrnToday: [0, 0],
+  timeToday: [0, 0],
+});
+
+const startOfDay = (time: number) => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+const noteFor = (card: TransferCard) => {
+  if (card.card_type === "cloze") return { modelId: CLOZE_MODEL_ID, fields: [card.question, ""] };
+  return { modelId: card.card_type === "reversed" ? REVERSED_MODEL_ID : BASIC_MODEL_ID, fields: [card.question, card.answer] };
+};
+
+const tagsFor = (card: TransferCard) => {
+  const tags = [card.difficulty && `${DIFFICULTY_TAG_PREFIX}${card.difficulty}`, card.is_starred && STARRED_TAG];
+  const joined = tags.filter(Boolean).join(" ");
+  return joined ? ` ${joined} ` : "";
+};
+
+// Our "learning" cards have no Anki learning steps to map onto, so they are
+// exported as review cards with a one day interval at their due date
+const schedulingFor = (card: TransferCard, position: number, collectionStart: number) => {
+  if (!card.review_count) {
+    return { type: ANKI_CARD_TYPE.new, due: position, ivl: 0, factor: 0, reps: 0 };
+  }
+
+  const dueAt = card.next_review_date ? new Date(card.next_review_date).getTime() : collectionStart;
+  return {
+    type: ANKI_CARD_TYPE.review,
+    due: Math.max(0, Math.round((startOfDay(dueAt) - collectionStart) / DAY_MS)),
+    ivl: Math.max(1, card.interval_days ?? 1),
+    factor: Math.round((card.ease_factor ?? DEFAULT_EASE_FACTOR) * 1000),
+    reps: card.review_count,
+  };
+};
+
+export const exportApkg = async (deckName: string, cards: TransferCard[]) => {
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database();
+
+  try {
+    const now = Date.now();
+    const mod = Math.floor(now / 1000);
+    const deckId = now;
+    // Review due dates count days from collection creation, so start it at the earliest one
+    const collectionStart = startOfDay(
+      Math.min(now, ...cards.map((card) => (card.next_review_date ? new Date(card.next_review_date).getTime() : now)))
+    );
+
+    const models = {
+      [BASIC_MODEL_ID]: buildModel(BASIC_MODEL_ID, "iAura Basic", 0, ["Front", "Back"], {
+        qfmt: "{{Front}}",
+        afmt: "{{FrontSide}}<hr id=answer>{{Back}}",
+      }, deckId, mod),
+      [REVERSED_MODEL_ID]: buildModel(REVERSED_MODEL_ID, "iAura Reversed", 0, ["Front", "Back"], {
+        qfmt: "{{Back}}",
+        afmt: "{{FrontSide}}<hr id=answer>{{Front}}",
+      }, deckId, mod),
+      [CLOZE_MODEL_ID]: buildModel(CLOZE_MODEL_ID, "iAura Cloze", CLOZE_MODEL_TYPE, ["Text", "Back Extra"], {
+        qfmt: "{{cloze:Text}}",
+        afmt: "{{cloze:Text}}<br>{{Back Extra}}",
+      }, deckId, mod),
+    };
+    const decks = { 1: buildDeck(1, "Default", mod), [deckId]: buildDeck(deckId, deckName, mod) };
+    const conf = { nextPos: cards.length, activeDecks: [deckId], curDeck: deckId, curModel: BASIC_MODEL_ID };
+
+    db.run(SCHEMA);
+    db.run("insert into col values (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, '{}')", [
+      Math.floor(collectionStart / 1000),
+      now,
+      now,
+      JSON.stringify(conf),
+      JSON.stringify(models),
+      JSON.stringify(decks),
+      JSON.stringify(DECK_CONF),
+    ]);
+
+    for (const [position, card] of cards.entries()) {
+      const id = now + position;
+      const { modelId, fields } = noteFor(card);
+      const htmlFields = fields.map(escapeHtml);
+      const scheduling = schedulingFor(card, position, collectionStart);
+
+      db.run("insert into notes values (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, '')", [
+        id,
+        crypto.randomUUID(),
+        modelId,
+        mod,
+        tagsFor(card),
+        htmlFields.join(FIELD_SEPARATOR),
+        fields[0],
+        await fieldChecksum(fields[0]),
+      ]);
+      db.run("insert into cards values (?, ?, ?, 0, ?, -1, ?, ?, ?, ?, ?, ?, 0, 0, 0, 0, 0, '')", [
+        id,
+        id,
+        deckId,
+        mod,
+        scheduling.type,
+        scheduling.type,
+        scheduling.due,
+        scheduling.ivl,
+        scheduling.factor,
+        scheduling.reps,
+      ]);
+    }
+
+    const zip = new JSZip();
+    zip.file("collection.anki2", db.export());
+    zip.file("media", "{}");
+    return await zip.generateAsync({ type: "blob", compression: "DEFLATE" });
+  } finally {
+    db.close();
+  }
+};
+
+// A field is referenced as {{Name}} or with filters such as {{text:Name}}
+const firstFieldIndex = (model: AnkiModel, template: string) => {
+  for (const [, reference] of template.matchAll(/\{\{([^#/^}][^}]*)\}\}/g)) {
+    const name = reference.split(":").pop()?.trim();
+    const index = model.flds.findIndex((field) => field.name === name);
+    if (index !== -1) return index;
+  }
+  return 0;
+};
+
+const parseTags = (tags: string) => {
+  const list = tags.trim().split(/\s+/).filter(Boolean);
+  const difficulty = list.find((tag) => tag.startsWith(DIFFICULTY_TAG_PREFIX))?.slice(DIFFICULTY_TAG_PREFIX.length);
+  return {
+    is_starred: list.some((tag) => tag.toLowerCase() === STARRED_TAG),
+    difficulty: ["easy", "medium", "hard"].includes(difficulty ?? "") ? difficulty : undefined,
+  };
+};
+
+const importScheduling = (type: number, due: number, ivl: number, factor: number, reps: number, collectionStart: number) => {
+  if (type === ANKI_CARD_TYPE.new) return { review_count: 0 };
+
+  const dueAt = due > TIMESTAMP_DUE_THRESHOLD ? due * 1000 : collectionStart + due * DAY_MS;
+  return {
+    ease_factor: factor > 0 ? factor / 1000 : DEFAULT_EASE_FACTOR,
+    interval_days: type === ANKI_CARD_TYPE.review ? Math.max(0, ivl) : 0,
+    review_count: reps,
+    next_review_date: new Date(dueAt).toISOString(),
+  };
+};
+
+/**
+ * Reads every card of an `.apkg` into import rows. Cloze notes become a single
+ * cloze card; other note types yield one row per card, and a card whose front
+ * shows a later field (as in "Basic (and reversed card)") becomes reversed.
+ */
+export const readApkg = async (file: Blob): Promise<ImportSource> => {
+  const zip = await JSZip.loadAsync(file);
+  const collection = zip.file("collection.anki21") ?? (zip.file("collection.anki21b") ? null : zip.file("collection.anki2"));
+  if (!collection) {
+    throw new Error("This deck uses Anki's newer package format. Export it again with \"Support older Anki versions\" ticked.");
+  }
+
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database(await collection.async("uint8array"));
+
+  try {
+    const [col] = db.exec("select crt, models from col");
+    if (!col) throw new Error("This file does not contain an Anki collection.");
+
+    const collectionStart = Number(col.values[0][0]) * 1000;
+    const models: Record<string, AnkiModel> = JSON.parse(String(col.values[0][1]));
+
+    const rows: ImportRow[] = [];
+    const clozeNotes = new Set<number>();
+    const modelUsage = new Map<string, number>();
+
+    const statement = db.prepare(
+      "select n.id, n.mid, n.flds, n.tags, c.ord, c.type, c.due, c.ivl, c.factor, c.reps " +
+        "from cards c join notes n on n.id = c.nid order by n.id, c.ord"
+    );
+    while (statement.step()) {
+      const [noteId, modelId, flds, tags, ord, type, due, ivl, factor, reps] = statement.get().map((value) =>
+        typeof value === "string" ? value : Number(value)
+      ) as [number, number, string, string, number, number, number, number, number, number];
+
+      const model = models[String(modelId)];
+      if (!model) continue;
+
+      const isCloze = model.type === CLOZE_MODEL_TYPE;
+      if (isCloze && clozeNotes.has(noteId)) continue;
+      if (isCloze) clozeNotes.add(noteId);
+      modelUsage.set(String(modelId), (modelUsage.get(String(modelId)) ?? 0) + 1);
+
+      const template = isCloze ? model.tmpls[0] : model.tmpls[ord];
+      rows.push({
+        fields: flds.split(FIELD_SEPARATOR).map(htmlToText),
+        card_type: isCloze ? "cloze" : template && firstFieldIndex(model, template.qfmt) !== 0 ? "reversed" : "basic",
+        ...parseTags(tags),
+        ...importScheduling(type, due, ivl, factor, reps, collectionStart),
+      });
+    }
+    statement.free();
+
+    // Columns are named after the most used note type's fields
+    const [mainModelId] = Array.from(modelUsage).sort((a, b) => b[1] - a[1])[0] ?? [];
+    const mainFields = models[mainModelId]?.flds ?? [];
+    const width = Math.max(0, ...rows.map((row) => row.fields.length));
+
+    return {
+      columns: Array.from({ length: width }, (_, i) => mainFields[i]?.name ?? `Field ${i + 1}`),
+      rows,
+    };
+  } finally {
+    db.close();
+  }
+};
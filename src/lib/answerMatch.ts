@@ -0,0 +1,104 @@
+import type { ReviewGrade } from "@/lib/srs";
+
+export type DiffToken = {
+  word: string;
+  matched: boolean;
+};
+
+export type AnswerMatch = {
+  // 0 (nothing in common) to 1 (same answer once normalized)
+  similarity: number;
+  // The reference answer word by word, flagging words missing from the typed text
+  diff: DiffToken[];
+  suggestedGrade: ReviewGrade;
+};
+
+// Short answers are compared character by character as well, so typos still count
+const SHORT_ANSWER_TOKENS = 3;
+
+/**
+ * Lowercases, strips accents and punctuation and collapses whitespace so that
+ * "Mitochondria." and "  mitochondria" compare equal.
+ */
+export const normalizeAnswer = (text: string) =>
+  text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const tokenize = (text: string) => normalizeAnswer(text).split(" ").filter(Boolean);
+
+const levenshtein = (a: string, b: string) => {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+};
+
+const characterSimilarity = (a: string, b: string) => {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - levenshtein(a, b) / longest;
+};
+
+// Dice coefficient over the two token multisets
+const tokenOverlap = (typed: string[], expected: string[]) => {
+  if (typed.length === 0 || expected.length === 0) return 0;
+
+  const remaining = new Map<string, number>();
+  for (const token of typed) remaining.set(token, (remaining.get(token) ?? 0) + 1);
+
+  let shared = 0;
+  for (const token of expected) {
+    const count = remaining.get(token) ?? 0;
+    if (count > 0) {
+      shared += 1;
+      remaining.set(token, count - 1);
+    }
+  }
+  return (2 * shared) / (typed.length + expected.length);
+};
+
+export const suggestGrade = (similarity: number): ReviewGrade => {
+  if (similarity >= 0.95) return "easy";
+  if (similarity >= 0.7) return "good";
+  if (similarity >= 0.4) return "hard";
+  return "again";
+};
+
+export const matchAnswer = (typed: string, expected: string): AnswerMatch => {
+  const typedTokens = tokenize(typed);
+  const expectedTokens = tokenize(expected);
+
+  let similarity = tokenOverlap(typedTokens, expectedTokens);
+  if (expectedTokens.length <= SHORT_ANSWER_TOKENS) {
+    similarity = Math.max(
+      similarity,
+      characterSimilarity(typedTokens.join(" "), expectedTokens.join(" "))
+    );
+  }
+
+  const typedSet = new Set(typedTokens);
+  const diff = expected
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => ({
+      word,
+      matched: tokenize(word).every((token) => typedSet.has(token)),
+    }));
+
+  return { similarity, diff, suggestedGrade: suggestGrade(similarity) };
+};
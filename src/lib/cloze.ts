@@ -0,0 +1,103 @@
+// Cloze deletions use Anki's syntax: {{c1::answer}} or {{c1::answer::hint}}
+
+export type ClozeSegment =
+  | { type: "text"; text: string }
+  | { type: "cloze"; index: number; text: string; hint?: string };
+
+export type GeneratedCloze = {
+  question: string;
+  answer: string;
+};
+
+const CLOZE_PATTERN = /\{\{c(\d+)::(.+?)(?:::(.+?))?\}\}/g;
+
+// Longest subject still treated as the term being defined ("X is ...")
+const MAX_TERM_WORDS = 6;
+
+const STOPWORDS = new Set([
+  "about", "after", "also", "because", "before", "being", "between", "during", "their",
+  "there", "these", "those", "through", "which", "while", "where", "would", "could",
+  "should", "other", "under", "within", "without",
+]);
+
+export const hasCloze = (text: string) => new RegExp(CLOZE_PATTERN.source).test(text);
+
+export const parseCloze = (text: string): ClozeSegment[] => {
+  const segments: ClozeSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(CLOZE_PATTERN)) {
+    if (match.index > lastIndex) {
+      segments.push({ type: "text", text: text.slice(lastIndex, match.index) });
+    }
+    segments.push({ type: "cloze", index: Number(match[1]), text: match[2], hint: match[3] });
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ type: "text", text: text.slice(lastIndex) });
+  }
+  return segments;
+};
+
+// The deleted terms, which is what gets stored as the card's answer
+export const clozeAnswer = (text: string) =>
+  parseCloze(text)
+    .filter((segment) => segment.type === "cloze")
+    .map((segment) => segment.text)
+    .join("; ");
+
+// The full sentence with every deletion filled in
+export const fillCloze = (text: string) => parseCloze(text).map((segment) => segment.text).join("");
+
+const wrap = (text: string, term: string) => {
+  const at = text.indexOf(term);
+  return `${text.slice(0, at)}{{c1::${term}}}${text.slice(at + term.length)}`;
+};
+
+const pickTerm = (point: string) => {
+  const definition = point.match(/^(?:the |an? )?(.+?)\s+(?:is|are|was|were|refers to|means)\s/i);
+  if (definition && definition[1].split(/\s+/).length <= MAX_TERM_WORDS) {
+    return definition[1];
+  }
+
+  const labelled = point.match(/^(.+?):\s/);
+  if (labelled && labelled[1].split(/\s+/).length <= MAX_TERM_WORDS) {
+    return labelled[1];
+  }
+
+  // Dates, quantities and formulas make good blanks
+  const number = point.match(/\d+(?:[.,]\d+)*\s?%?/);
+  if (number) return number[0].trim();
+
+  const words = point.match(/[\p{L}][\p{L}\p{N}'-]{4,}/gu) || [];
+  const candidates = words.filter((word) => !STOPWORDS.has(word.toLowerCase()));
+  if (candidates.length === 0) return null;
+  return candidates.reduce((longest, word) => (word.length > longest.length ? word : longest));
+};
+
+/**
+ * Turns a single key point into a cloze sentence by blanking the term it
+ * defines, or failing that a number or the most specific-looking word.
+ */
+export const generateCloze = (point: string): GeneratedCloze | null => {
+  const text = point.trim();
+  if (!text) return null;
+  if (hasCloze(text)) return { question: text, answer: clozeAnswer(text) };
+
+  const term = pickTerm(text);
+  if (!term) return null;
+
+  const question = wrap(text, term);
+  return { question, answer: clozeAnswer(question) };
+};
+
+// `key_points` is stored as jsonb, so anything other than strings is skipped
+export const generateClozeCards = (keyPoints: unknown): GeneratedCloze[] => {
+  if (!Array.isArray(keyPoints)) return [];
+
+  return keyPoints
+    .filter((point): point is string => typeof point === "string")
+    .map(generateCloze)
+    .filter((card): card is GeneratedCloze => card !== null);
+};
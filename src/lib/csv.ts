@@ -0,0 +1,61 @@
+// RFC 4180 style delimited text: quoted fields may contain delimiters, quotes ("") and newlines
+
+export type Delimiter = "," | "\t";
+
+export const detectDelimiter = (text: string, fileName = ""): Delimiter => {
+  if (/\.tsv$/i.test(fileName)) return "\t";
+  const firstLine = text.slice(0, text.indexOf("\n") === -1 ? undefined : text.indexOf("\n"));
+  return firstLine.split("\t").length > firstLine.split(",").length ? "\t" : ",";
+};
+
+export const parseDelimited = (input: string, delimiter: Delimiter): string[][] => {
+  // A UTF-8 byte order mark would otherwise stick to the first header
+  const text = input.replace(/^\uFEFF/, "");
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+};
+
+const escapeField = (value: string, delimiter: Delimiter) =>
+  value.includes(delimiter) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toDelimited = (rows: (string | number | boolean | null)[][], delimiter: Delimiter) =>
+  rows
+    .map((row) => row.map((value) => escapeField(value === null ? "" : String(value), delimiter)).join(delimiter))
+    .join("\r\n");
@@ -0,0 +1,261 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { normalizeAnswer } from "@/lib/answerMatch";
+import { clozeAnswer, hasCloze } from "@/lib/cloze";
+import { CARD_TYPES, CardType, DIFFICULTIES, Difficulty } from "@/lib/flashcards";
+import { Delimiter, detectDelimiter, parseDelimited, toDelimited } from "@/lib/csv";
+import { ALL_DECK, STARRED_DECK } from "@/lib/reviewQueue";
+import { fetchAllPages } from "@/lib/supabasePaging";
+
+export type TransferCard = Pick<
+  Tables<"flashcards">,
+  | "question"
+  | "answer"
+  | "card_type"
+  | "difficulty"
+  | "is_starred"
+  | "ease_factor"
+  | "interval_days"
+  | "review_count"
+  | "next_review_date"
+>;
+
+// A parsed row before the student has said which column holds what
+export type ImportRow = {
+  fields: string[];
+} & Partial<Omit<TransferCard, "question" | "answer">>;
+
+export type ImportSource = {
+  columns: string[];
+  rows: ImportRow[];
+};
+
+export type ColumnMapping = {
+  question: number;
+  answer: number;
+};
+
+export type ImportPreview = {
+  cards: TransferCard[];
+  duplicates: TransferCard[];
+};
+
+const EXPORT_COLUMNS = [
+  "question",
+  "answer",
+  "card_type",
+  "difficulty",
+  "is_starred",
+  "ease_factor",
+  "interval_days",
+  "review_count",
+  "next_review_date",
+] as const;
+
+const TRANSFER_CARD_COLUMNS =
+  "question, answer, card_type, difficulty, is_starred, ease_factor, interval_days, review_count, next_review_date";
+
+// Inserts are chunked so a large deck does not exceed the request size limit
+const INSERT_BATCH_SIZE = 500;
+
+const QUESTION_HEADERS = ["question", "front", "term", "prompt"];
+const ANSWER_HEADERS = ["answer", "back", "definition", "response"];
+
+export const fetchDeckForExport = (userId: string, deckId: string): Promise<TransferCard[]> =>
+  fetchAllPages((from, to) => {
+    let query = supabase.from("flashcards").select(TRANSFER_CARD_COLUMNS).eq("user_id", userId);
+
+    if (deckId === STARRED_DECK) {
+      query = query.eq("is_starred", true);
+    } else if (deckId !== ALL_DECK) {
+      query = query.eq("material_id", deckId);
+    }
+
+    return query.order("created_at", { ascending: true }).range(from, to);
+  });
+
+export const cardsToDelimited = (cards: TransferCard[], delimiter: Delimiter) =>
+  toDelimited(
+    [[...EXPORT_COLUMNS], ...cards.map((card) => EXPORT_COLUMNS.map((column) => card[column]))],
+    delimiter
+  );
+
+export const downloadFile = (data: BlobPart, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const safeFileName = (title: string) =>
+  title.replace(/[^\p{L}\p{N}\s_-]/gu, "").trim().replace(/\s+/g, "-") || "flashcards";
+
+const asCardType = (value: string): CardType | undefined =>
+  CARD_TYPES.find((option) => option.value === value.trim().toLowerCase())?.value;
+
+const asDifficulty = (value: string): Difficulty | undefined =>
+  DIFFICULTIES.find((option) => option.value === value.trim().toLowerCase())?.value;
+
+const asNumber = (value: string) => {
+  const number = Number(value);
+  return value.trim() !== "" && Number.isFinite(number) ? number : undefined;
+};
+
+const asDate = (value: string) => {
+  const date = new Date(value);
+  return value.trim() !== "" && !Number.isNaN(date.getTime()) ? date.toISOString() : undefined;
+};
+
+// Columns written by our own export are read back so scheduling survives a round trip
+const readKnownColumns = (headers: string[], cells: string[]): Omit<ImportRow, "fields"> => {
+  const read = <T,>(name: string, parse: (value: string) => T | undefined) => {
+    const index = headers.indexOf(name);
+    return index === -1 || cells[index] === undefined ? undefined : parse(cells[index]);
+  };
+
+  return {
+    card_type: read("card_type", asCardType),
+    difficulty: read("difficulty", asDifficulty),
+    is_starred: read("is_starred", (value) => ["true", "1", "yes"].includes(value.trim().toLowerCase())),
+    ease_factor: read("ease_factor", asNumber),
+    interval_days: read("interval_days", asNumber),
+    review_count: read("review_count", asNumber),
+    next_review_date: read("next_review_date", asDate),
+  };
+};
+
+export const parseDelimitedImport = (text: string, fileName: string): ImportSource => {
+  const rows = parseDelimited(text, detectDelimiter(text, fileName));
+  if (rows.length === 0) return { columns: [], rows: [] };
+
+  const width = Math.max(...rows.map((row) => row.length));
+  const firstRow = rows[0].map((cell) => cell.trim().toLowerCase());
+  const hasHeader = firstRow.some((cell) => [...QUESTION_HEADERS, ...ANSWER_HEADERS].includes(cell));
+
+  const headers = hasHeader ? firstRow : [];
+  const columns = Array.from({ length: width }, (_, i) =>
+    hasHeader && rows[0][i]?.trim() ? rows[0][i].trim() : `Column ${i + 1}`
+  );
+
+  return {
+    columns,
+    rows: (hasHeader ? rows.slice(1) : rows).map((cells) => ({
+      fields: cells,
+      ...readKnownColumns(headers, cells),
+    })),
+  };
+};
+
+export const suggestMapping = (columns: string[]): ColumnMapping => {
+  const lower = columns.map((column) => column.toLowerCase());
+  const question = lower.findIndex((column) => QUESTION_HEADERS.includes(column));
+  const answer = lower.findIndex((column) => ANSWER_HEADERS.includes(column));
+
+  return {
+    question: question === -1 ? 0 : question,
+    answer: answer === -1 ? Math.min(1, columns.length - 1) : answer,
+  };
+};
+
+const toTransferCard = (row: ImportRow, mapping: ColumnMapping): TransferCard | null => {
+  const question = row.fields[mapping.question]?.trim() ?? "";
+  if (!question) return null;
+
+  const cardType = row.card_type ?? (hasCloze(question) ? "cloze" : "basic");
+  // Cloze answers are always derived from the deletions, whatever the answer column says
+  const answer = cardType === "cloze" ? clozeAnswer(question) : row.fields[mapping.answer]?.trim() ?? "";
+  if (!answer) return null;
+
+  return {
+    question,
+    answer,
+    card_type: cardType,
+    difficulty: row.difficulty ?? null,
+    is_starred: row.is_starred ?? false,
+    ease_factor: row.ease_factor ?? null,
+    interval_days: row.interval_days ?? null,
+    review_count: row.review_count ?? null,
+    next_review_date: row.next_review_date ?? null,
+  };
+};
+
+// Cards of the same type whose questions match after normalizing count as duplicates
+export const duplicateKey = (card: Pick<TransferCard, "question" | "card_type">) =>
+  `${card.card_type}:${normalizeAnswer(card.question)}`;
+
+/**
+ * Maps rows onto cards and sets aside any whose question already exists,
+ * either among the student's flashcards or earlier in the same file.
+ */
+export const previewImport = async (
+  userId: string,
+  source: ImportSource,
+  mapping: ColumnMapping
+): Promise<ImportPreview> => {
+  const existing = await fetchAllPages((from, to) =>
+    supabase
+      .from("flashcards")
+      .select("question, card_type")
+      .eq("user_id", userId)
+      .order("id")
+      .range(from, to)
+  );
+
+  const seen = new Set(existing.map(duplicateKey));
+  const cards: TransferCard[] = [];
+  const duplicates: TransferCard[] = [];
+
+  for (const row of source.rows) {
+    const card = toTransferCard(row, mapping);
+    if (!card) continue;
+
+    const key = duplicateKey(card);
+    if (seen.has(key)) {
+      duplicates.push(card);
+    } else {
+      seen.add(key);
+      cards.push(card);
+    }
+  }
+
+  return { cards, duplicates };
+};
+
+export const importCards = async (userId: string, title: string, cards: TransferCard[]) => {
+  const { data: material, error: materialError } = await supabase
+    .from("materials")
+    .insert({
+      user_id: userId,
+      title,
+      content: cards.map((card) => `${card.question}\n${card.answer}`).join("\n\n"),
+      source_type: "import",
+    })
+    .select("id")
+    .single();
+
+  if (materialError) throw materialError;
+
+  // Unset scheduling fields are left to the column defaults
+  const rows: TablesInsert<"flashcards">[] = cards.map((card) => {
+    const row: TablesInsert<"flashcards"> = { user_id: userId, material_id: material.id, ...card };
+    for (const column of ["ease_factor", "interval_days", "review_count", "next_review_date", "difficulty"] as const) {
+      if (row[column] === null) delete row[column];
+    }
+    return row;
+  });
+
+  try {
+    for (let start = 0; start < rows.length; start += INSERT_BATCH_SIZE) {
+      const { error } = await supabase.from("flashcards").insert(rows.slice(start, start + INSERT_BATCH_SIZE));
+      if (error) throw error;
+    }
+  } catch (error) {
+    // Deleting the material cascades to any batches that did make it in
+    await supabase.from("materials").delete().eq("id", material.id);
+    throw error;
+  }
+
+  return material.id;
+};
@@ -0,0 +1,23 @@
+export type Difficulty = "easy" | "medium" | "hard";
+
+export const DIFFICULTIES: { value: Difficulty; label: string }[] = [
+  { value: "easy", label: "Easy" },
+  { value: "medium", label: "Medium" },
+  { value: "hard", label: "Hard" },
+];
+
+export const DEFAULT_DIFFICULTY: Difficulty = "medium";
+
+export type CardType = "basic" | "reversed" | "cloze";
+
+export const CARD_TYPES: { value: CardType; label: string }[] = [
+  { value: "basic", label: "Basic" },
+  { value: "reversed", label: "Reversed" },
+  { value: "cloze", label: "Cloze" },
+];
+
+export const DEFAULT_CARD_TYPE: CardType = "basic";
+
+// What a typed answer is compared against: reversed cards are answered with the question
+export const expectedAnswer = (card: { question: string; answer: string; card_type?: string | null }) =>
+  card.card_type === "reversed" ? card.question : card.answer;
@@ -0,0 +1,208 @@
+import { supabase } from "@/integrations/supabase/client";
+import { normalizeAnswer } from "@/lib/answerMatch";
+
+// What process-material returns, for a whole material or one section of it
+export type GeneratedMaterial = {
+  summary?: string;
+  key_points?: string[];
+  examples?: string[];
+  flashcards?: { question: string; answer: string; difficulty?: string }[];
+  cloze_cards?: { text: string; difficulty?: string }[];
+  quiz_questions?: {
+    question: string;
+    type: string;
+    options?: string[] | null;
+    correct_answer: string;
+    explanation?: string | null;
+  }[];
+};
+
+export type MaterialChunk = {
+  index: number;
+  heading: string | null;
+  text: string;
+};
+
+export type ChunkProgress = {
+  completed: number;
+  total: number;
+  chunk: MaterialChunk;
+};
+
+// Rough budget per request; leaves the model room for a long JSON reply
+export const CHUNK_TOKEN_BUDGET = 6000;
+
+// Close enough for English prose, and cheap to compute
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const HEADING = /^(#{1,6})\s+(.+)$/;
+
+type Section = {
+  heading: string | null;
+  paragraphs: string[];
+};
+
+// Paragraphs grouped under the Markdown heading they follow
+const toSections = (text: string): Section[] => {
+  const sections: Section[] = [{ heading: null, paragraphs: [] }];
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const trimmed = paragraph.trim();
+    if (!trimmed) continue;
+
+    const heading = trimmed.split("\n")[0].match(HEADING);
+    if (heading) sections.push({ heading: heading[2].trim(), paragraphs: [] });
+    sections[sections.length - 1].paragraphs.push(trimmed);
+  }
+  return sections.filter((section) => section.paragraphs.length > 0);
+};
+
+// Last resort for a single paragraph over budget: break between sentences
+const splitOversized = (paragraph: string, budget: number) => {
+  const maxChars = budget * 4;
+  const pieces: string[] = [];
+  let current = "";
+  // The second alternative keeps trailing text without punctuation, so no characters are dropped
+  for (const sentence of paragraph.match(/[^.!?]*[.!?]+\s*|[^.!?]+$/g) ?? [paragraph]) {
+    if (current && current.length + sentence.length > maxChars) {
+      pieces.push(current.trim());
+      current = "";
+    }
+    // A "sentence" with no punctuation for pages is cut where it stands
+    for (let start = 0; start < sentence.length; start += maxChars) {
+      current += sentence.slice(start, start + maxChars);
+      if (current.length >= maxChars) {
+        pieces.push(current.trim());
+        current = "";
+      }
+    }
+  }
+  if (current.trim()) pieces.push(current.trim());
+  return pieces;
+};
+
+/**
+ * Splits a long material into chunks that each fit the token budget. Whole
+ * sections stay together when they fit, otherwise they're broken between
+ * paragraphs, and only oversized paragraphs are broken between sentences.
+ */
+export const splitMaterial = (text: string, budget = CHUNK_TOKEN_BUDGET): MaterialChunk[] => {
+  const chunks: Omit<MaterialChunk, "index">[] = [];
+  let current: Omit<MaterialChunk, "index"> | null = null;
+
+  const flush = () => {
+    if (current) chunks.push(current);
+    current = null;
+  };
+
+  const append = (heading: string | null, part: string) => {
+    if (current && estimateTokens(current.text) + estimateTokens(part) > budget) flush();
+    if (!current) current = { heading, text: part };
+    else current.text += `\n\n${part}`;
+  };
+
+  for (const section of toSections(text)) {
+    const sectionText = section.paragraphs.join("\n\n");
+    if (estimateTokens(sectionText) <= budget) {
+      append(section.heading, sectionText);
+      continue;
+    }
+
+    // Start big sections on a fresh chunk, keeping a heading line with the text under it
+    flush();
+    let heading = "";
+    for (const paragraph of section.paragraphs) {
+      if (!heading && !current && HEADING.test(paragraph) && !paragraph.includes("\n")) {
+        heading = paragraph;
+        continue;
+      }
+      const parts = estimateTokens(paragraph) > budget ? splitOversized(paragraph, budget) : [paragraph];
+      parts.forEach((part, index) => append(section.heading, heading && index === 0 ? `${heading}\n\n${part}` : part));
+      heading = "";
+    }
+    if (heading) append(section.heading, heading);
+  }
+  flush();
+
+  return chunks.map((chunk, index) => ({ ...chunk, index }));
+};
+
+// Keeps the first of any items that normalize to the same key
+const dedupeBy = <T>(items: T[], key: (item: T) => string) => {
+  const seen = new Set<string>();
+  return items.filter((item) => {
+    const normalized = normalizeAnswer(key(item));
+    if (!normalized || seen.has(normalized)) return false;
+    seen.add(normalized);
+    return true;
+  });
+};
+
+/**
+ * Puts per-chunk summaries in order under their section headings. Chunks
+ * without a summary are left out.
+ */
+export const joinSummaries = (chunks: MaterialChunk[], summaries: (string | undefined)[]) =>
+  summaries
+    .map((summary, index) => {
+      if (!summary) return null;
+      const heading = chunks[index].heading ?? `Part ${index + 1}`;
+      return `## ${heading}\n\n${summary.trim()}`;
+    })
+    .filter(Boolean)
+    .join("\n\n");
+
+/**
+ * Combines per-chunk results into one material. Summaries are kept in order
+ * under their section headings; cards, points and questions that came out
+ * the same from overlapping sections are dropped.
+ */
+export const mergeChunkResults = (chunks: MaterialChunk[], results: GeneratedMaterial[]): GeneratedMaterial => {
+  if (results.length === 1) return results[0];
+
+  // The model occasionally leaves a list out or returns something else there
+  const all = <T>(pick: (result: GeneratedMaterial) => T[] | undefined) =>
+    results.flatMap((result) => {
+      const items = pick(result);
+      return Array.isArray(items) ? items : [];
+    });
+
+  return {
+    summary: joinSummaries(chunks, results.map((result) => result.summary)),
+    key_points: dedupeBy(all((result) => result.key_points), (point) => String(point)),
+    examples: dedupeBy(all((result) => result.examples), (example) => String(example)),
+    flashcards: dedupeBy(all((result) => result.flashcards), (card) => card?.question ?? ""),
+    cloze_cards: dedupeBy(all((result) => result.cloze_cards), (card) => card?.text ?? ""),
+    quiz_questions: dedupeBy(all((result) => result.quiz_questions), (question) => question?.question ?? ""),
+  };
+};
+
+/**
+ * Runs process-material over each chunk in turn and merges the results.
+ * Chunks go one at a time so a long chapter doesn't trip the rate limit, and
+ * onProgress fires after each one.
+ */
+export const processMaterialChunks = async (
+  chunks: MaterialChunk[],
+  title: string,
+  includeCloze: boolean,
+  onProgress?: (progress: ChunkProgress) => void
+) => {
+  const results: GeneratedMaterial[] = [];
+
+  for (const chunk of chunks) {
+    const { data, error } = await supabase.functions.invoke("process-material", {
+      body: {
+        content: chunk.text,
+        title,
+        include_cloze: includeCloze,
+        part: chunks.length > 1 ? { index: chunk.index, total: chunks.length, heading: chunk.heading } : undefined,
+      },
+    });
+
+    if (error) throw error;
+    results.push(data);
+    onProgress?.({ completed: results.length, total: chunks.length, chunk });
+  }
+
+  return mergeChunkResults(chunks, results);
+};
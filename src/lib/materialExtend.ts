@@ -0,0 +1,265 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { normalizeAnswer } from "@/lib/answerMatch";
+import { GeneratedMaterial, MaterialChunk, joinSummaries, splitMaterial } from "@/lib/materialChunks";
+import { insertQuestionsIntoNewQuiz } from "@/lib/quizzes";
+import { fetchAllPages } from "@/lib/supabasePaging";
+
+export type ExtendableMaterial = {
+  id: string;
+  title: string;
+  content: string;
+  summary: string | null;
+};
+
+export type SummarySection = {
+  index: number;
+  heading: string;
+};
+
+export const MIN_EXTEND_COUNT = 1;
+export const MAX_EXTEND_COUNT = 20;
+export const DEFAULT_EXTEND_COUNT = 5;
+
+type ExtendMode = "summary" | "flashcards" | "quiz_questions";
+
+const invokeExtend = async (
+  material: ExtendableMaterial,
+  chunks: MaterialChunk[],
+  chunk: MaterialChunk,
+  mode: ExtendMode,
+  count = 0,
+  existing: string[] = []
+): Promise<GeneratedMaterial> => {
+  const { data, error } = await supabase.functions.invoke("extend-material", {
+    body: {
+      content: chunk.text,
+      title: material.title,
+      mode,
+      count,
+      existing,
+      part: chunks.length > 1 ? { index: chunk.index, total: chunks.length, heading: chunk.heading } : undefined,
+    },
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+// Nothing is saved unless every part came back with a summary
+const generateSummary = async (material: ExtendableMaterial, chunks: MaterialChunk[], chunk: MaterialChunk) => {
+  const { summary } = await invokeExtend(material, chunks, chunk, "summary");
+  if (typeof summary !== "string" || !summary.trim()) throw new Error("No summary was generated");
+  return summary.trim();
+};
+
+// "## Heading" blocks, as joinSummaries writes them for chunked materials
+const splitSummary = (summary: string) => summary.split(/^(?=## )/m).filter((block) => block.trim());
+
+/**
+ * Sections of the summary that can be regenerated on their own. Only offered
+ * while the summary still has one block per chunk of the content, otherwise
+ * there's no telling which part of the content a block came from.
+ */
+export const summarySections = (material: ExtendableMaterial): SummarySection[] => {
+  const chunks = splitMaterial(material.content);
+  if (chunks.length < 2 || !material.summary) return [];
+
+  const blocks = splitSummary(material.summary);
+  if (blocks.length !== chunks.length || !blocks.every((block) => block.startsWith("## "))) return [];
+
+  return blocks.map((block, index) => ({ index, heading: block.split("\n")[0].slice(3).trim() }));
+};
+
+/**
+ * Saves a new summary on the material and on its notes that still show the
+ * old one. Notes the student has edited since are left alone.
+ */
+const saveSummary = async (material: ExtendableMaterial, summary: string) => {
+  const { error } = await supabase.from("materials").update({ summary }).eq("id", material.id);
+  if (error) throw error;
+
+  if (material.summary) {
+    const { error: notesError } = await supabase
+      .from("notes")
+      .update({ content: summary })
+      .eq("material_id", material.id)
+      .eq("content", material.summary);
+    if (notesError) throw notesError;
+  }
+  return summary;
+};
+
+export const regenerateSummary = async (
+  material: ExtendableMaterial,
+  onProgress?: (completed: number, total: number) => void
+) => {
+  const chunks = splitMaterial(material.content);
+  const summaries: string[] = [];
+  for (const chunk of chunks) {
+    summaries.push(await generateSummary(material, chunks, chunk));
+    onProgress?.(summaries.length, chunks.length);
+  }
+
+  return saveSummary(material, chunks.length === 1 ? summaries[0] : joinSummaries(chunks, summaries));
+};
+
+export const regenerateSummarySection = async (material: ExtendableMaterial, sectionIndex: number) => {
+  const chunks = splitMaterial(material.content);
+  const blocks = splitSummary(material.summary ?? "");
+  const chunk = chunks[sectionIndex];
+  if (!chunk || blocks.length !== chunks.length) throw new Error("This section can no longer be regenerated");
+
+  blocks[sectionIndex] = joinSummaries([chunk], [await generateSummary(material, chunks, chunk)]);
+  return saveSummary(material, blocks.map((block) => block.trim()).join("\n\n"));
+};
+
+// How many items to ask each chunk for, spreading the total across the material
+const spreadCount = (chunks: MaterialChunk[], count: number) => {
+  if (chunks.length <= count) {
+    return chunks.map((chunk, index) => ({
+      chunk,
+      count: Math.floor(count / chunks.length) + (index < count % chunks.length ? 1 : 0),
+    }));
+  }
+  // More chunks than items: one each from evenly spaced chunks
+  return Array.from({ length: count }, (_, index) => ({
+    chunk: chunks[Math.floor((index * chunks.length) / count)],
+    count: 1,
+  }));
+};
+
+// Generates items chunk by chunk, dropping any that repeat what already exists
+const generateNew = async <T>(
+  material: ExtendableMaterial,
+  mode: "flashcards" | "quiz_questions",
+  count: number,
+  existing: string[],
+  pick: (result: GeneratedMaterial) => T[] | undefined,
+  keyOf: (item: T) => string,
+  onProgress?: (completed: number, total: number) => void
+) => {
+  const chunks = splitMaterial(material.content);
+  const seen = new Set(existing.map(normalizeAnswer));
+  const known = [...existing];
+  const created: T[] = [];
+  const plan = spreadCount(chunks, count);
+
+  for (const [step, { chunk, count: chunkCount }] of plan.entries()) {
+    const items = pick(await invokeExtend(material, chunks, chunk, mode, chunkCount, known)) ?? [];
+    for (const item of items) {
+      const key = normalizeAnswer(keyOf(item));
+      if (!key || seen.has(key)) continue;
+      seen.add(key);
+      known.push(keyOf(item));
+      created.push(item);
+    }
+    onProgress?.(step + 1, plan.length);
+  }
+  return created;
+};
+
+/**
+ * Adds up to `count` flashcards the material doesn't have yet. Returns how
+ * many were actually added, which can be fewer once duplicates are dropped.
+ */
+export const extendFlashcards = async (
+  userId: string,
+  material: ExtendableMaterial,
+  count: number,
+  onProgress?: (completed: number, total: number) => void
+) => {
+  const existing = await fetchAllPages((from, to) =>
+    supabase
+      .from("flashcards")
+      .select("question")
+      .eq("material_id", material.id)
+      .order("id", { ascending: true })
+      .range(from, to)
+  );
+
+  const cards = await generateNew(
+    material,
+    "flashcards",
+    count,
+    existing.map((card) => card.question),
+    (result) => result.flashcards,
+    (card) => card.question,
+    onProgress
+  );
+  if (cards.length === 0) return 0;
+
+  const { error: insertError } = await supabase.from("flashcards").insert(
+    cards.map((card) => ({
+      user_id: userId,
+      material_id: material.id,
+      question: card.question,
+      answer: card.answer,
+      difficulty: card.difficulty || "medium",
+    }))
+  );
+
+  if (insertError) throw insertError;
+  return cards.length;
+};
+
+/**
+ * Appends up to `count` new questions to the material's quiz, creating the
+ * quiz first if the material never had one.
+ */
+export const extendQuizQuestions = async (
+  userId: string,
+  material: ExtendableMaterial,
+  count: number,
+  onProgress?: (completed: number, total: number) => void
+) => {
+  const { data: quizzes, error } = await supabase
+    .from("quizzes")
+    .select("id, questions(question_text, position)")
+    .eq("material_id", material.id)
+    .order("created_at", { ascending: true })
+    .limit(1);
+
+  if (error) throw error;
+
+  const existing = quizzes?.[0]?.questions ?? [];
+  const questions = await generateNew(
+    material,
+    "quiz_questions",
+    count,
+    existing.map((question) => question.question_text),
+    (result) => result.quiz_questions,
+    (question) => question.question,
+    onProgress
+  );
+  if (questions.length === 0) return 0;
+
+  const nextPosition = existing.reduce((max, question) => Math.max(max, (question.position ?? 0) + 1), 0);
+  const rows = questions.map((question, index) => ({
+    position: nextPosition + index,
+    question_text: question.question,
+    question_type: question.type,
+    options: (question.options ?? null) as Json,
+    correct_answer: question.correct_answer,
+    explanation: question.explanation ?? null,
+  }));
+
+  const quizId = quizzes?.[0]?.id;
+  if (quizId) {
+    const { error: insertError } = await supabase
+      .from("questions")
+      .insert(rows.map((row) => ({ ...row, quiz_id: quizId })));
+    if (insertError) throw insertError;
+    return questions.length;
+  }
+
+  const { data: quiz, error: quizError } = await supabase
+    .from("quizzes")
+    .insert({ user_id: userId, material_id: material.id, title: `${material.title} - Quiz` })
+    .select("id")
+    .single();
+
+  if (quizError) throw quizError;
+  await insertQuestionsIntoNewQuiz(quiz.id, rows);
+  return questions.length;
+};
@@ -0,0 +1,107 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type MaterialFileKind = "pdf" | "docx" | "text";
+
+// Private bucket; objects live under the owner's user id
+export const MATERIALS_BUCKET = "materials";
+
+export const MAX_MATERIAL_FILE_BYTES = 20 * 1024 * 1024;
+
+export const MATERIAL_FILE_ACCEPT = ".pdf,.docx,.txt,.md,.markdown";
+
+const EXTENSION_KINDS: Record<string, MaterialFileKind> = {
+  pdf: "pdf",
+  docx: "docx",
+  txt: "text",
+  md: "text",
+  markdown: "text",
+};
+
+const fileExtension = (fileName: string) => fileName.split(".").pop()?.toLowerCase() ?? "";
+
+export const materialFileKind = (file: File): MaterialFileKind | null => EXTENSION_KINDS[fileExtension(file.name)] ?? null;
+
+// "Cell biology.pdf" -> "Cell biology"
+export const materialTitleFromFile = (file: File) => file.name.replace(/\.[^.]+$/, "").trim() || "Untitled";
+
+// Collapses the ragged whitespace PDF and DOCX extraction leaves behind
+const tidyText = (text: string) =>
+  text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+const extractPdfText = async (file: File) => {
+  // pdf.js is large, so it's only fetched once someone uploads a PDF
+  const [pdfjs, { default: workerUrl }] = await Promise.all([
+    import("pdfjs-dist"),
+    import("pdfjs-dist/build/pdf.worker.min.mjs?url"),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+  const pages: string[] = [];
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+    pages.push(
+      content.items
+        .map((item) => ("str" in item ? item.str + (item.hasEOL ? "\n" : "") : ""))
+        .join("")
+    );
+  }
+  await pdf.destroy();
+  return pages.join("\n\n");
+};
+
+const extractDocxText = async (file: File) => {
+  const { default: mammoth } = await import("mammoth");
+  const { value } = await mammoth.extractRawText({ arrayBuffer: await file.arrayBuffer() });
+  return value;
+};
+
+/**
+ * Pulls the plain text out of an uploaded file in the browser, so the student
+ * can check it before anything is sent for processing.
+ */
+export const extractMaterialText = async (file: File) => {
+  const kind = materialFileKind(file);
+  if (!kind) throw new Error("Unsupported file type. Upload a PDF, DOCX, TXT or Markdown file.");
+  if (file.size > MAX_MATERIAL_FILE_BYTES) throw new Error("Files can be at most 20 MB");
+
+  const text = kind === "pdf" ? await extractPdfText(file) : kind === "docx" ? await extractDocxText(file) : await file.text();
+  const tidied = tidyText(text);
+  if (!tidied) {
+    throw new Error(kind === "pdf" ? "No text found. Scanned PDFs aren't supported yet." : "This file is empty");
+  }
+  return tidied;
+};
+
+/**
+ * Stores the original file and returns its storage path, which is what
+ * materials.file_url holds. The bucket is private, so links are signed on
+ * demand by openMaterialFile.
+ */
+export const uploadMaterialFile = async (userId: string, file: File) => {
+  const safeName = file.name.replace(/[^\w.-]+/g, "_");
+  const path = `${userId}/${crypto.randomUUID()}-${safeName}`;
+  const { error } = await supabase.storage
+    .from(MATERIALS_BUCKET)
+    .upload(path, file, { contentType: file.type || undefined });
+
+  if (error) throw error;
+  return path;
+};
+
+export const removeMaterialFile = async (path: string) => {
+  const { error } = await supabase.storage.from(MATERIALS_BUCKET).remove([path]);
+  if (error) throw error;
+};
+
+// Signed links expire, so they're created when the student asks for the file
+export const openMaterialFile = async (path: string) => {
+  const { data, error } = await supabase.storage.from(MATERIALS_BUCKET).createSignedUrl(path, 60 * 60);
+  if (error) throw error;
+  window.open(data.signedUrl, "_blank", "noopener");
+};
@@ -0,0 +1,109 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { clozeAnswer, hasCloze } from "@/lib/cloze";
+import type { GeneratedMaterial } from "@/lib/materialChunks";
+
+export type SavedMaterial = {
+  material_id: string;
+  note_id: string | null;
+  flashcard_ids: string[];
+  quiz_id: string | null;
+  question_ids: string[];
+};
+
+type SaveMaterialOptions = {
+  title: string;
+  content: string;
+  sourceType: string;
+  fileUrl?: string | null;
+  generated: GeneratedMaterial;
+};
+
+const DIFFICULTIES = ["easy", "medium", "hard"];
+const QUESTION_TYPES = ["multiple_choice", "true_false", "short_answer"];
+
+const text = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+
+const difficultyOf = (value: unknown) => (typeof value === "string" && DIFFICULTIES.includes(value) ? value : "medium");
+
+const textList = (value: unknown) =>
+  Array.isArray(value) ? value.map(text).filter(Boolean) : [];
+
+/**
+ * Shapes what the AI returned into the payload save_generated_material
+ * accepts. Items the app couldn't use anyway (empty cards, cloze cards
+ * without a deletion, multiple choice whose answer isn't one of the options)
+ * are dropped here, so one bad item doesn't fail the whole save.
+ */
+export const toSavePayload = (generated: GeneratedMaterial) => {
+  const flashcards = (Array.isArray(generated.flashcards) ? generated.flashcards : [])
+    .map((card) => ({
+      question: text(card?.question),
+      answer: text(card?.answer),
+      card_type: "basic",
+      difficulty: difficultyOf(card?.difficulty),
+    }))
+    .filter((card) => card.question && card.answer);
+
+  const clozeCards = (Array.isArray(generated.cloze_cards) ? generated.cloze_cards : [])
+    .filter((card) => typeof card?.text === "string" && hasCloze(card.text))
+    .map((card) => ({
+      question: card.text.trim(),
+      answer: clozeAnswer(card.text),
+      card_type: "cloze",
+      difficulty: difficultyOf(card.difficulty),
+    }))
+    .filter((card) => card.answer);
+
+  const quizQuestions = (Array.isArray(generated.quiz_questions) ? generated.quiz_questions : [])
+    .map((question) => ({
+      question: text(question?.question),
+      type: text(question?.type),
+      options: textList(question?.options),
+      correct_answer: text(question?.correct_answer),
+      explanation: text(question?.explanation) || null,
+    }))
+    .filter(
+      (question) =>
+        question.question &&
+        question.correct_answer &&
+        QUESTION_TYPES.includes(question.type) &&
+        (question.type !== "multiple_choice" ||
+          (question.options.length >= 2 && question.options.includes(question.correct_answer)))
+    )
+    .map(({ options, ...question }) => ({
+      ...question,
+      options: question.type === "multiple_choice" ? options : null,
+    }));
+
+  return {
+    summary: text(generated.summary) || null,
+    key_points: textList(generated.key_points),
+    examples: textList(generated.examples),
+    flashcards: [...flashcards, ...clozeCards],
+    quiz_questions: quizQuestions,
+  };
+};
+
+/**
+ * Saves a processed material with its notes, flashcards, quiz and questions
+ * in a single database transaction: either all of it is stored or none of it.
+ */
+export const saveGeneratedMaterial = async ({
+  title,
+  content,
+  sourceType,
+  fileUrl = null,
+  generated,
+}: SaveMaterialOptions) => {
+  const { data, error } = await supabase.rpc("save_generated_material", {
+    p_title: title,
+    p_content: content,
+    p_source_type: sourceType,
+    p_file_url: fileUrl,
+    p_generated: toSavePayload(generated) as Json,
+  });
+
+  if (error) throw error;
+  return data as SavedMaterial;
+};
@@ -0,0 +1,28 @@
+import { supabase } from "@/integrations/supabase/client";
+import { removeMaterialFile } from "@/lib/materialFiles";
+
+export const SOURCE_TYPE_LABELS: Record<string, string> = {
+  ai_generated: "AI generated",
+  paste: "Pasted text",
+  upload: "Uploaded file",
+  import: "Imported deck",
+};
+
+export const sourceTypeLabel = (sourceType: string) => SOURCE_TYPE_LABELS[sourceType] ?? sourceType;
+
+/**
+ * Deletes a material along with everything generated from it. Notes,
+ * flashcards and quizzes go with it through their foreign keys; the stored
+ * original file has to be removed separately.
+ */
+export const deleteMaterial = async (material: { id: string; file_url: string | null }) => {
+  const { error } = await supabase.from("materials").delete().eq("id", material.id);
+  if (error) throw error;
+
+  if (material.file_url) {
+    // The material is already gone, so a leftover file isn't worth failing over
+    await removeMaterialFile(material.file_url).catch((fileError) =>
+      console.error("Error removing material file:", fileError)
+    );
+  }
+};
@@ -0,0 +1,183 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import { QuestionType, questionType } from "@/lib/quizGrading";
+import { createShuffleSeed, shuffleQuestions } from "@/lib/quizShuffle";
+import { insertQuestionsIntoNewQuiz } from "@/lib/quizzes";
+import { fetchAllPages } from "@/lib/supabasePaging";
+
+export type ExamConfig = {
+  title: string;
+  materialIds: string[];
+  questionCount: number;
+  types: QuestionType[];
+  // 0 for an untimed exam
+  timeLimitMinutes: number;
+  // Generate new questions when the selected materials don't have enough
+  topUp: boolean;
+};
+
+export const MIN_EXAM_QUESTIONS = 5;
+export const MAX_EXAM_QUESTIONS = 50;
+// Matches the cap of the generate-exam-questions function
+const MAX_GENERATED_QUESTIONS = 30;
+
+export const DEFAULT_EXAM_CONFIG: ExamConfig = {
+  title: "Mock exam",
+  materialIds: [],
+  questionCount: 20,
+  types: ["multiple_choice", "true_false", "short_answer"],
+  timeLimitMinutes: 30,
+  topUp: true,
+};
+
+export type PoolQuestion = Pick<
+  Tables<"questions">,
+  "id" | "question_text" | "question_type" | "options" | "correct_answer" | "explanation"
+> & {
+  material_id: string;
+};
+
+type GeneratedQuestion = {
+  question: string;
+  type: string;
+  options: string[] | null;
+  correct_answer: string;
+  explanation: string | null;
+};
+
+const normalize = (text: string) => text.trim().toLowerCase().replace(/\s+/g, " ");
+
+/**
+ * Every question in the quizzes of the chosen materials, with duplicates by
+ * text dropped in case a material's quizzes repeat a question. Mock exams
+ * aren't tied to a material, so their copies of questions never reach the pool.
+ */
+export const fetchQuestionPool = async (userId: string, materialIds: string[]): Promise<PoolQuestion[]> => {
+  if (materialIds.length === 0) return [];
+
+  const { data: quizzes, error } = await supabase
+    .from("quizzes")
+    .select("id, material_id")
+    .eq("user_id", userId)
+    .in("material_id", materialIds);
+
+  if (error) throw error;
+  if (!quizzes?.length) return [];
+
+  const materialByQuiz = new Map(quizzes.map((quiz) => [quiz.id, quiz.material_id]));
+  const questions = await fetchAllPages((from, to) =>
+    supabase
+      .from("questions")
+      .select("id, quiz_id, question_text, question_type, options, correct_answer, explanation")
+      .in("quiz_id", Array.from(materialByQuiz.keys()))
+      .order("id", { ascending: true })
+      .range(from, to)
+  );
+
+  const seen = new Set<string>();
+  const pool: PoolQuestion[] = [];
+  for (const { quiz_id, ...question } of questions) {
+    const key = normalize(question.question_text);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    pool.push({ ...question, material_id: materialByQuiz.get(quiz_id) });
+  }
+  return pool;
+};
+
+export const matchingQuestions = (pool: PoolQuestion[], types: QuestionType[]) =>
+  pool.filter((question) => types.includes(questionType(question)));
+
+/**
+ * Picks up to `count` questions, taking turns between materials so one large
+ * material can't crowd out the others.
+ */
+export const sampleQuestions = (pool: PoolQuestion[], config: Pick<ExamConfig, "questionCount" | "types">) => {
+  const byMaterial = new Map<string, PoolQuestion[]>();
+  for (const question of shuffleQuestions(matchingQuestions(pool, config.types), createShuffleSeed())) {
+    byMaterial.set(question.material_id, [...(byMaterial.get(question.material_id) ?? []), question]);
+  }
+
+  const queues = Array.from(byMaterial.values());
+  const sampled: PoolQuestion[] = [];
+  while (sampled.length < config.questionCount && queues.some((queue) => queue.length > 0)) {
+    for (const queue of queues) {
+      const question = queue.shift();
+      if (question && sampled.length < config.questionCount) sampled.push(question);
+    }
+  }
+  return sampled;
+};
+
+const generateQuestions = async (config: ExamConfig, count: number, existing: PoolQuestion[]) => {
+  const { data: materials, error } = await supabase
+    .from("materials")
+    .select("title, content")
+    .in("id", config.materialIds);
+
+  if (error) throw error;
+
+  const { data, error: generateError } = await supabase.functions.invoke("generate-exam-questions", {
+    body: {
+      materials,
+      count: Math.min(count, MAX_GENERATED_QUESTIONS),
+      types: config.types,
+      existing_questions: existing.map((question) => question.question_text),
+    },
+  });
+
+  if (generateError) throw generateError;
+  return data.quiz_questions as GeneratedQuestion[];
+};
+
+export type MockExamResult = {
+  quiz: { id: string; title: string; created_at: string; time_limit_seconds: number | null };
+  sampled: number;
+  generated: number;
+};
+
+/**
+ * Builds the exam from existing questions, tops it up with generated ones if
+ * allowed, and saves it as a regular quiz with its own copies of the questions.
+ */
+export const buildMockExam = async (userId: string, config: ExamConfig): Promise<MockExamResult> => {
+  const pool = await fetchQuestionPool(userId, config.materialIds);
+  const sampled = sampleQuestions(pool, config);
+
+  const shortfall = config.questionCount - sampled.length;
+  const generated = shortfall > 0 && config.topUp ? await generateQuestions(config, shortfall, sampled) : [];
+
+  const rows = [
+    ...sampled.map((question) => ({
+      question_text: question.question_text,
+      question_type: question.question_type,
+      options: question.options,
+      correct_answer: question.correct_answer,
+      explanation: question.explanation,
+    })),
+    ...generated.map((question) => ({
+      question_text: question.question,
+      question_type: question.type,
+      options: question.options as Json,
+      correct_answer: question.correct_answer,
+      explanation: question.explanation,
+    })),
+  ];
+  if (rows.length === 0) throw new Error("No questions available for this exam");
+
+  const { data: quiz, error } = await supabase
+    .from("quizzes")
+    .insert({
+      user_id: userId,
+      title: config.title.trim() || DEFAULT_EXAM_CONFIG.title,
+      time_limit_seconds: config.timeLimitMinutes > 0 ? Math.round(config.timeLimitMinutes * 60) : null,
+    })
+    .select("id, title, created_at, time_limit_seconds")
+    .single();
+
+  if (error) throw error;
+
+  await insertQuestionsIntoNewQuiz(quiz.id, rows.map((row, position) => ({ ...row, position })));
+
+  return { quiz, sampled: sampled.length, generated: generated.length };
+};
@@ -0,0 +1,87 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import type { AnswerFeedback } from "@/lib/quizGrading";
+
+export type AttemptSummary = Pick<
+  Tables<"quiz_attempts">,
+  "id" | "score" | "total_questions" | "time_taken" | "completed_at" | "retry_of" | "shuffle_seed"
+>;
+
+export type AttemptAnswer = Pick<
+  Tables<"attempt_answers">,
+  "question_id" | "given_answer" | "is_correct" | "time_spent_ms"
+> & {
+  feedback: AnswerFeedback | null;
+};
+
+export type NewAttempt = {
+  quizId: string;
+  score: number;
+  retryOf: string | null;
+  // In-progress attempt row to complete instead of inserting a new one
+  inProgressId: string | null;
+  shuffleSeed: number | null;
+  // Active time in seconds, excluding time spent paused or in another tab
+  timeTaken: number;
+  answers: AttemptAnswer[];
+};
+
+export const fetchAttempts = async (userId: string, quizId: string): Promise<AttemptSummary[]> => {
+  const { data, error } = await supabase
+    .from("quiz_attempts")
+    .select("id, score, total_questions, time_taken, completed_at, retry_of, shuffle_seed")
+    .eq("user_id", userId)
+    .eq("quiz_id", quizId)
+    .eq("status", "completed")
+    .order("completed_at", { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchAttemptAnswers = async (attemptId: string): Promise<AttemptAnswer[]> => {
+  const { data, error } = await supabase
+    .from("attempt_answers")
+    .select("question_id, given_answer, is_correct, time_spent_ms, feedback")
+    .eq("attempt_id", attemptId);
+
+  if (error) throw error;
+  return (data || []).map((answer) => ({
+    ...answer,
+    feedback: answer.feedback as AnswerFeedback | null,
+  }));
+};
+
+/**
+ * Completes the attempt and stores its answers in one transaction (see the
+ * save_quiz_attempt database function), so a failed save can't leave a
+ * completed attempt without answers.
+ */
+export const saveAttempt = async ({
+  quizId,
+  score,
+  retryOf,
+  inProgressId,
+  shuffleSeed,
+  timeTaken,
+  answers,
+}: NewAttempt) => {
+  const { data, error } = await supabase.rpc("save_quiz_attempt", {
+    p_quiz_id: quizId,
+    p_in_progress_id: inProgressId,
+    p_score: score,
+    p_retry_of: retryOf,
+    p_shuffle_seed: shuffleSeed,
+    p_time_taken: timeTaken,
+    p_answers: answers.map((answer) => ({
+      question_id: answer.question_id,
+      given_answer: answer.given_answer,
+      is_correct: answer.is_correct,
+      time_spent_ms: answer.time_spent_ms,
+      feedback: answer.feedback as Json,
+    })),
+  });
+
+  if (error) throw error;
+  return data;
+};
@@ -0,0 +1,77 @@
+import type { Json } from "@/integrations/supabase/types";
+import { GradableQuestion, QuestionType, displayAnswer, questionOptions, questionType } from "@/lib/quizGrading";
+
+export const QUESTION_TYPES: { value: QuestionType; label: string }[] = [
+  { value: "multiple_choice", label: "Multiple choice" },
+  { value: "true_false", label: "True / False" },
+  { value: "short_answer", label: "Short answer" },
+];
+
+export const MIN_OPTIONS = 2;
+export const MAX_OPTIONS = 6;
+
+export type QuestionDraft = {
+  question_type: QuestionType;
+  question_text: string;
+  options: string[];
+  correct_answer: string;
+  explanation: string;
+};
+
+export const emptyDraft = (): QuestionDraft => ({
+  question_type: "multiple_choice",
+  question_text: "",
+  options: ["", "", "", ""],
+  correct_answer: "",
+  explanation: "",
+});
+
+/**
+ * Editable form of a stored question. Options are flattened to a list and a
+ * letter answer ("B") is resolved to the option text, so saving normalizes
+ * whatever shape the AI originally produced.
+ */
+export const draftFromQuestion = (
+  question: GradableQuestion & { question_text: string; explanation: string | null }
+): QuestionDraft => {
+  const type = questionType(question);
+  return {
+    question_type: type,
+    question_text: question.question_text,
+    options: type === "multiple_choice" ? questionOptions(question) : [],
+    correct_answer: displayAnswer(question),
+    explanation: question.explanation ?? "",
+  };
+};
+
+// Returns a message for the first problem found, or null when the draft can be saved
+export const validateDraft = (draft: QuestionDraft): string | null => {
+  if (!draft.question_text.trim()) return "Question cannot be empty";
+
+  switch (draft.question_type) {
+    case "multiple_choice": {
+      const options = draft.options.map((option) => option.trim()).filter(Boolean);
+      if (options.length < MIN_OPTIONS) return `Add at least ${MIN_OPTIONS} options`;
+      if (new Set(options).size !== options.length) return "Options must be different from each other";
+      if (!options.includes(draft.correct_answer.trim())) return "Choose which option is correct";
+      return null;
+    }
+    case "true_false":
+      return draft.correct_answer === "True" || draft.correct_answer === "False"
+        ? null
+        : "Choose whether the statement is true or false";
+    case "short_answer":
+      return draft.correct_answer.trim() ? null : "Model answer cannot be empty";
+  }
+};
+
+export const draftToRow = (draft: QuestionDraft) => ({
+  question_type: draft.question_type,
+  question_text: draft.question_text.trim(),
+  options:
+    draft.question_type === "multiple_choice"
+      ? (draft.options.map((option) => option.trim()).filter(Boolean) as Json)
+      : null,
+  correct_answer: draft.correct_answer.trim(),
+  explanation: draft.explanation.trim() || null,
+});
@@ -0,0 +1,108 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { matchAnswer } from "@/lib/answerMatch";
+
+export type QuestionType = "multiple_choice" | "true_false" | "short_answer";
+
+export type GradableQuestion = {
+  question_type: string;
+  options: Json | null;
+  correct_answer: string;
+};
+
+export type AnswerVerdict = "correct" | "partially_correct" | "incorrect";
+
+// What the grade-answer function returns for a short answer
+export type AnswerFeedback = {
+  score: number;
+  verdict: AnswerVerdict;
+  feedback: string;
+};
+
+// Short answers at least this similar to the reference answer are marked correct
+export const SHORT_ANSWER_PASS_SIMILARITY = 0.7;
+
+const TRUE_WORDS = ["true", "t", "yes", "correct", "vrai", "wahr"];
+const FALSE_WORDS = ["false", "f", "no", "incorrect", "faux", "falsch"];
+
+// Options come from the AI as either an array or an object keyed by letter
+export const questionOptions = (question: Pick<GradableQuestion, "options">): string[] => {
+  const { options } = question;
+  if (!options || typeof options !== "object") return [];
+  const values = Array.isArray(options) ? options : Object.values(options);
+  return values.filter((option) => option !== null && option !== "").map(String);
+};
+
+/**
+ * The renderer a question should get. A multiple choice question without any
+ * options can only be answered in free text, so it is treated as short answer.
+ */
+export const questionType = (question: GradableQuestion): QuestionType => {
+  if (question.question_type === "true_false") return "true_false";
+  if (question.question_type === "multiple_choice" && questionOptions(question).length > 0) {
+    return "multiple_choice";
+  }
+  return "short_answer";
+};
+
+export const parseTrueFalse = (value: string): boolean | null => {
+  const normalized = value.trim().toLowerCase().replace(/[.!]$/, "");
+  if (TRUE_WORDS.includes(normalized)) return true;
+  if (FALSE_WORDS.includes(normalized)) return false;
+  return null;
+};
+
+// The AI sometimes answers with the option letter ("B") instead of its text
+const correctOption = (question: GradableQuestion) => {
+  const options = questionOptions(question);
+  const answer = question.correct_answer.trim();
+  if (options.includes(answer)) return answer;
+
+  const letter = answer.match(/^([A-Za-z])[.)]?$/);
+  if (letter) {
+    const index = letter[1].toUpperCase().charCodeAt(0) - "A".charCodeAt(0);
+    if (options[index] !== undefined) return options[index];
+  }
+  return answer;
+};
+
+// The reference answer as it should be shown to the student
+export const displayAnswer = (question: GradableQuestion) => {
+  const type = questionType(question);
+  if (type === "multiple_choice") return correctOption(question);
+  if (type === "true_false") {
+    const value = parseTrueFalse(question.correct_answer);
+    return value === null ? question.correct_answer : value ? "True" : "False";
+  }
+  return question.correct_answer;
+};
+
+export const isAnswerCorrect = (question: GradableQuestion, answer: string | undefined) => {
+  if (!answer?.trim()) return false;
+
+  switch (questionType(question)) {
+    case "multiple_choice":
+      return answer === correctOption(question);
+    case "true_false":
+      return parseTrueFalse(answer) !== null && parseTrueFalse(answer) === parseTrueFalse(question.correct_answer);
+    case "short_answer":
+      return matchAnswer(answer, question.correct_answer).similarity >= SHORT_ANSWER_PASS_SIMILARITY;
+  }
+};
+
+export const gradeShortAnswer = async (
+  question: { question_text: string; correct_answer: string; explanation: string | null },
+  answer: string
+): Promise<AnswerFeedback> => {
+  const { data, error } = await supabase.functions.invoke("grade-answer", {
+    body: {
+      question: question.question_text,
+      reference_answer: question.correct_answer,
+      explanation: question.explanation,
+      student_answer: answer,
+    },
+  });
+
+  if (error) throw error;
+  return data;
+};
@@ -0,0 +1,130 @@
+import { jsPDF } from "jspdf";
+import regularFontUrl from "dejavu-fonts-ttf/ttf/DejaVuSans.ttf?url";
+import boldFontUrl from "dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf?url";
+import { PrintQuestion, PrintVersion, SHORT_ANSWER_LINES, optionLetter } from "@/lib/quizPrint";
+
+// A4 in millimetres
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 18;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const LINE_HEIGHT = 5.5;
+const ANSWER_LINE_SPACING = 8;
+
+type PdfOptions = {
+  title: string;
+  version: PrintVersion;
+  versionCode: string | null;
+  questions: PrintQuestion[];
+};
+
+// Embedded for text beyond Latin-1 (Greek, Cyrillic, maths symbols), which jsPDF's built-in fonts can't show
+const UNICODE_FONT = "DejaVuSans";
+
+// CJK and Hangul, which DejaVu Sans has no glyphs for either
+const UNSUPPORTED_TEXT = /[\u2e80-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/;
+
+const pdfTexts = ({ title, questions }: Pick<PdfOptions, "title" | "questions">) => [
+  title,
+  ...questions.flatMap((question) => [question.text, question.answer, question.explanation ?? "", ...question.options]),
+];
+
+const isLatin1 = (text: string) => Array.from(text).every((char) => char.codePointAt(0) <= 0xff);
+
+/**
+ * Whether the PDF export can show every character of the quiz. When it
+ * can't, the print view (which the browser can save as a PDF) should be used.
+ */
+export const canExportPdf = (quiz: Pick<PdfOptions, "title" | "questions">) =>
+  !pdfTexts(quiz).some((text) => UNSUPPORTED_TEXT.test(text));
+
+const fetchFontBase64 = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to load PDF font: ${response.status}`);
+
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  let binary = "";
+  // Chunked so large fonts don't overflow the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const embedUnicodeFont = async (doc: jsPDF) => {
+  const [regular, bold] = await Promise.all([fetchFontBase64(regularFontUrl), fetchFontBase64(boldFontUrl)]);
+  doc.addFileToVFS("DejaVuSans.ttf", regular);
+  doc.addFont("DejaVuSans.ttf", UNICODE_FONT, "normal");
+  doc.addFileToVFS("DejaVuSans-Bold.ttf", bold);
+  doc.addFont("DejaVuSans-Bold.ttf", UNICODE_FONT, "bold");
+};
+
+/**
+ * Lays the quiz out as plain text on A4 pages. Kept separate from the print
+ * page so jsPDF is only downloaded when someone actually exports a PDF. The
+ * Unicode font is only fetched for quizzes that need it.
+ */
+export const exportQuizPdf = async ({ title, version, versionCode, questions }: PdfOptions): Promise<Blob> => {
+  const doc = new jsPDF({ unit: "mm", format: "a4" });
+  const needsUnicode = !pdfTexts({ title, questions }).every(isLatin1);
+  if (needsUnicode) await embedUnicodeFont(doc);
+  const font = needsUnicode ? UNICODE_FONT : "helvetica";
+  let y = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height <= PAGE_HEIGHT - MARGIN) return;
+    doc.addPage();
+    y = MARGIN;
+  };
+
+  const write = (text: string, { size = 11, bold = false, indent = 0, color = 0 } = {}) => {
+    doc.setFont(font, bold ? "bold" : "normal");
+    doc.setFontSize(size);
+    doc.setTextColor(color);
+    const lines: string[] = doc.splitTextToSize(text, CONTENT_WIDTH - indent);
+    for (const line of lines) {
+      ensureSpace(LINE_HEIGHT);
+      doc.text(line, MARGIN + indent, y);
+      y += LINE_HEIGHT;
+    }
+  };
+
+  write(title, { size: 16, bold: true });
+  write(
+    [version === "key" ? "Answer key" : "Practice test", versionCode && `Version ${versionCode}`]
+      .filter(Boolean)
+      .join(" · "),
+    { size: 10, color: 100 }
+  );
+  y += LINE_HEIGHT;
+
+  if (version === "student") {
+    write("Name: ______________________________    Date: ______________", { size: 10 });
+    y += LINE_HEIGHT;
+  }
+
+  for (const question of questions) {
+    // Keep a question's first lines together with its number
+    ensureSpace(LINE_HEIGHT * 3);
+    write(`${question.number}. ${question.text}`, { bold: true });
+
+    if (version === "key") {
+      write(`Answer: ${question.answer}`, { indent: 6 });
+      if (question.explanation) write(question.explanation, { size: 10, indent: 6, color: 90 });
+    } else if (question.type === "multiple_choice") {
+      question.options.forEach((option, index) => write(`${optionLetter(index)}. ${option}`, { indent: 6 }));
+    } else if (question.type === "true_false") {
+      write("True        False", { indent: 6 });
+    } else {
+      doc.setDrawColor(180);
+      for (let line = 0; line < SHORT_ANSWER_LINES; line++) {
+        ensureSpace(ANSWER_LINE_SPACING);
+        y += ANSWER_LINE_SPACING;
+        doc.line(MARGIN + 6, y - 2, MARGIN + CONTENT_WIDTH, y - 2);
+      }
+    }
+    y += LINE_HEIGHT;
+  }
+
+  return doc.output("blob");
+};
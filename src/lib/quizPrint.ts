@@ -0,0 +1,47 @@
+import { GradableQuestion, displayAnswer, questionOptions, questionType, QuestionType } from "@/lib/quizGrading";
+import { shuffleOptions } from "@/lib/quizShuffle";
+
+export type PrintVersion = "student" | "key";
+
+export type PrintQuestion = {
+  number: number;
+  text: string;
+  type: QuestionType;
+  options: string[];
+  // Letter and text for multiple choice, the plain answer otherwise
+  answer: string;
+  explanation: string | null;
+};
+
+// Lines left for a written answer on the student sheet
+export const SHORT_ANSWER_LINES = 4;
+
+export const optionLetter = (index: number) => String.fromCharCode(65 + index);
+
+/**
+ * Numbered questions as they appear on paper. With a seed the options are
+ * shuffled the same way for the student sheet and its answer key, so the
+ * letters in the key match the handout.
+ */
+export const preparePrintQuestions = (
+  questions: (GradableQuestion & { id: string; question_text: string; explanation: string | null })[],
+  seed: number | null
+): PrintQuestion[] =>
+  questions.map((question, index) => {
+    const type = questionType(question);
+    const options = type === "multiple_choice" ? shuffleOptions(questionOptions(question), seed, question.id) : [];
+    const correct = displayAnswer(question);
+    const correctIndex = options.indexOf(correct);
+
+    return {
+      number: index + 1,
+      text: question.question_text,
+      type,
+      options,
+      answer: correctIndex >= 0 ? `${optionLetter(correctIndex)}. ${correct}` : correct,
+      explanation: question.explanation,
+    };
+  });
+
+// Short code printed on both sheets to tell shuffled versions apart
+export const versionCode = (seed: number | null) => (seed === null ? null : String(seed % 10000).padStart(4, "0"));
@@ -0,0 +1,155 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import type { TimerSettings } from "@/lib/quizTimer";
+
+export type QuizProgress = {
+  quizId: string;
+  // The in_progress quiz_attempts row, once one has been created
+  attemptId: string | null;
+  retryOf: string | null;
+  // Question order and subset, so retries resume with only the missed questions
+  questionIds: string[];
+  // Seed for question and option order, null when the quiz is played in its stored order
+  shuffleSeed?: number | null;
+  currentIndex: number;
+  answers: Record<string, string>;
+  questionTimes: Record<string, number>;
+  timer: TimerSettings;
+  elapsedMs: number;
+  // Quiz clock reading when the current question was shown, for per-question countdowns
+  shownAtMs: number;
+  savedAt: string;
+};
+
+const STORAGE_PREFIX = "quizProgress";
+
+const storageKey = (userId: string, quizId: string) => `${STORAGE_PREFIX}:${userId}:${quizId}`;
+
+const isQuizProgress = (value: unknown): value is QuizProgress => {
+  if (!value || typeof value !== "object") return false;
+  const progress = value as Partial<QuizProgress>;
+  return (
+    typeof progress.quizId === "string" &&
+    Array.isArray(progress.questionIds) &&
+    typeof progress.currentIndex === "number" &&
+    typeof progress.elapsedMs === "number" &&
+    typeof progress.savedAt === "string" &&
+    !!progress.answers &&
+    !!progress.timer
+  );
+};
+
+export const saveLocalProgress = (userId: string, progress: QuizProgress) => {
+  try {
+    localStorage.setItem(storageKey(userId, progress.quizId), JSON.stringify(progress));
+  } catch (error) {
+    // Storage can be full or disabled; the server copy still lets the quiz be resumed
+    console.error("Error saving quiz progress locally:", error);
+  }
+};
+
+export const clearLocalProgress = (userId: string, quizId: string) => {
+  localStorage.removeItem(storageKey(userId, quizId));
+};
+
+const loadLocalProgress = (userId: string): QuizProgress[] => {
+  const prefix = `${STORAGE_PREFIX}:${userId}:`;
+  const saved: QuizProgress[] = [];
+
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key?.startsWith(prefix)) continue;
+
+    try {
+      const progress: unknown = JSON.parse(localStorage.getItem(key) ?? "");
+      if (isQuizProgress(progress)) saved.push(progress);
+    } catch {
+      // Ignore entries written by an incompatible version
+    }
+  }
+  return saved;
+};
+
+const fetchServerProgress = async (userId: string): Promise<QuizProgress[]> => {
+  const { data, error } = await supabase
+    .from("quiz_attempts")
+    .select("id, progress")
+    .eq("user_id", userId)
+    .eq("status", "in_progress");
+
+  if (error) throw error;
+  return (data || []).flatMap((row) =>
+    isQuizProgress(row.progress) ? [{ ...row.progress, attemptId: row.id }] : []
+  );
+};
+
+/**
+ * Quizzes that were started but not submitted, newest first. The local copy
+ * is usually fresher, but the server copy survives cleared storage and other
+ * devices, so whichever was saved last wins for each quiz.
+ */
+export const fetchResumableQuizzes = async (userId: string): Promise<QuizProgress[]> => {
+  let server: QuizProgress[] = [];
+  try {
+    server = await fetchServerProgress(userId);
+  } catch (error) {
+    console.error("Error fetching in-progress quizzes:", error);
+  }
+
+  const latest = new Map<string, QuizProgress>();
+  for (const progress of [...server, ...loadLocalProgress(userId)]) {
+    const existing = latest.get(progress.quizId);
+    if (!existing || progress.savedAt > existing.savedAt) {
+      latest.set(progress.quizId, { ...progress, attemptId: progress.attemptId ?? existing?.attemptId ?? null });
+    }
+  }
+
+  return [...latest.values()].sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+};
+
+// Creates the in_progress attempt on first save and returns its id
+export const saveServerProgress = async (userId: string, progress: QuizProgress): Promise<string> => {
+  const snapshot = { ...progress, attemptId: null } as unknown as Json;
+
+  if (progress.attemptId) {
+    const { error } = await supabase
+      .from("quiz_attempts")
+      .update({ progress: snapshot, updated_at: progress.savedAt })
+      .eq("id", progress.attemptId)
+      .eq("status", "in_progress");
+
+    if (error) throw error;
+    return progress.attemptId;
+  }
+
+  const { data, error } = await supabase
+    .from("quiz_attempts")
+    .insert({
+      user_id: userId,
+      quiz_id: progress.quizId,
+      retry_of: progress.retryOf,
+      status: "in_progress",
+      completed_at: null,
+      total_questions: progress.questionIds.length,
+      progress: snapshot,
+      updated_at: progress.savedAt,
+    })
+    .select("id")
+    .single();
+
+  if (error) throw error;
+  return data.id;
+};
+
+export const discardProgress = async (userId: string, progress: QuizProgress) => {
+  clearLocalProgress(userId, progress.quizId);
+  if (!progress.attemptId) return;
+
+  const { error } = await supabase
+    .from("quiz_attempts")
+    .delete()
+    .eq("id", progress.attemptId)
+    .eq("status", "in_progress");
+
+  if (error) throw error;
+};
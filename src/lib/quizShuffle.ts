@@ -0,0 +1,48 @@
+// Shuffles are seeded so an attempt shows the same order when resumed or reviewed
+
+export const createShuffleSeed = () => Math.floor(Math.random() * 2 ** 31);
+
+// mulberry32: small, fast and good enough to order a quiz
+const random = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const hashString = (value: string) => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (Math.imul(hash, 31) + value.charCodeAt(i)) | 0;
+  }
+  return hash;
+};
+
+const seededShuffle = <T,>(items: T[], seed: number) => {
+  const next = random(seed);
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(next() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+/**
+ * Question order for an attempt. Questions are sorted by id first, so the
+ * result only depends on the seed and the set of questions, not on the order
+ * they were loaded in.
+ */
+export const shuffleQuestions = <T extends { id: string }>(questions: T[], seed: number | null) => {
+  if (seed === null) return questions;
+  const canonical = [...questions].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  return seededShuffle(canonical, seed);
+};
+
+// Each question gets its own option order derived from the attempt seed
+export const shuffleOptions = (options: string[], seed: number | null, questionId: string) =>
+  seed === null ? options : seededShuffle(options, seed ^ hashString(questionId));
@@ -0,0 +1,40 @@
+export type TimerMode = "off" | "quiz" | "question";
+
+export type TimerSettings = {
+  mode: TimerMode;
+  // Whole-quiz limit for "quiz", per-question limit for "question"
+  limitSeconds: number;
+};
+
+export const UNTIMED: TimerSettings = { mode: "off", limitSeconds: 0 };
+
+export const DEFAULT_QUIZ_MINUTES = 10;
+export const DEFAULT_QUESTION_SECONDS = 60;
+
+export const formatDuration = (totalSeconds: number) => {
+  const seconds = Math.max(0, Math.round(totalSeconds));
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+export type TimeComparison = {
+  last: number | null;
+  best: number | null;
+  average: number | null;
+};
+
+// `previous` holds earlier attempts' time_taken in seconds, most recent first
+export const compareTimes = (previous: number[]): TimeComparison => {
+  if (previous.length === 0) return { last: null, best: null, average: null };
+  return {
+    last: previous[0],
+    best: Math.min(...previous),
+    average: Math.round(previous.reduce((sum, time) => sum + time, 0) / previous.length),
+  };
+};
+
+export const describeDifference = (seconds: number, reference: number) => {
+  const difference = seconds - reference;
+  if (Math.abs(difference) < 1) return "same time as";
+  return `${formatDuration(Math.abs(difference))} ${difference < 0 ? "faster than" : "slower than"}`;
+};
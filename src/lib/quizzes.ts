@@ -0,0 +1,20 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { TablesInsert } from "@/integrations/supabase/types";
+
+/**
+ * Adds questions to a quiz this request just created. If the insert fails
+ * the quiz is deleted again, so no empty quiz is left behind.
+ */
+export const insertQuestionsIntoNewQuiz = async (
+  quizId: string,
+  questions: Omit<TablesInsert<"questions">, "quiz_id">[]
+) => {
+  const { error } = await supabase
+    .from("questions")
+    .insert(questions.map((question) => ({ ...question, quiz_id: quizId })));
+
+  if (error) {
+    await supabase.from("quizzes").delete().eq("id", quizId);
+    throw error;
+  }
+};
@@ -0,0 +1,215 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { fetchAllPages } from "@/lib/supabasePaging";
+
+export type ReviewCard = Pick<
+  Tables<"flashcards">,
+  | "id"
+  | "question"
+  | "answer"
+  | "card_type"
+  | "difficulty"
+  | "is_starred"
+  | "ease_factor"
+  | "interval_days"
+  | "review_count"
+  | "next_review_date"
+>;
+
+export type CardState = "new" | "learning" | "due";
+
+export type QueueCounts = Record<CardState, number>;
+
+export type ReviewQueue = {
+  cards: ReviewCard[];
+  counts: QueueCounts;
+};
+
+export const REVIEW_CARD_COLUMNS =
+  "id, question, answer, card_type, difficulty, is_starred, ease_factor, interval_days, review_count, next_review_date";
+
+export const DEFAULT_NEW_CARDS_PER_DAY = 20;
+
+// Upper bound on overdue and on (re)learning cards pulled into a single session
+const MAX_REVIEWS_PER_SESSION = 200;
+
+export const BROWSE_PAGE_SIZE = 50;
+
+// Smart decks addressable next to material ids in /flashcards/:materialId
+export const ALL_DECK = "all";
+export const STARRED_DECK = "starred";
+// Custom session whose filter is carried in the query string (see sessionFilter)
+export const SESSION_DECK = "session";
+
+export type DeckSummary = {
+  id: string;
+  title: string;
+  total: number;
+  due: number;
+  new: number;
+};
+
+/**
+ * A reviewed card is due once its next review date has passed. Cards without
+ * a date (e.g. imported with progress but no schedule) are due right away.
+ * The review queue query applies the same rule.
+ */
+export const isCardDue = (card: Pick<ReviewCard, "review_count" | "next_review_date">, now = Date.now()) =>
+  !!card.review_count && (!card.next_review_date || new Date(card.next_review_date).getTime() <= now);
+
+export const getCardState = (card: ReviewCard): CardState => {
+  if (!card.review_count) return "new";
+  if (!card.interval_days) return "learning";
+  return "due";
+};
+
+export const countCards = (cards: ReviewCard[]): QueueCounts =>
+  cards.reduce<QueueCounts>(
+    (counts, card) => {
+      counts[getCardState(card)] += 1;
+      return counts;
+    },
+    { new: 0, learning: 0, due: 0 }
+  );
+
+// Counted from the review log: cards first reviewed since local midnight
+export const fetchNewCardsStudiedToday = async () => {
+  const now = new Date();
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const { data, error } = await supabase.rpc("new_cards_studied_since", { p_since: startOfToday.toISOString() });
+
+  if (error) throw error;
+  return data ?? 0;
+};
+
+export const fetchNewCardsPerDay = async (userId: string) => {
+  const { data, error } = await supabase
+    .from("user_preferences")
+    .select("new_cards_per_day")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.new_cards_per_day ?? DEFAULT_NEW_CARDS_PER_DAY;
+};
+
+const deckCards = (userId: string, deckId: string) => {
+  let query = supabase.from("flashcards").select(REVIEW_CARD_COLUMNS).eq("user_id", userId);
+  if (deckId === STARRED_DECK) {
+    query = query.eq("is_starred", true);
+  } else if (deckId !== ALL_DECK) {
+    query = query.eq("material_id", deckId);
+  }
+  return query;
+};
+
+/**
+ * Assembles today's review session: overdue cards first, then cards in
+ * (re)learning, then new cards up to what is left of the daily limit.
+ */
+export const fetchReviewQueue = async (userId: string, deckId: string = ALL_DECK): Promise<ReviewQueue> => {
+  const now = new Date().toISOString();
+  const [newCardsPerDay, newCardsStudied] = await Promise.all([
+    fetchNewCardsPerDay(userId),
+    fetchNewCardsStudiedToday(),
+  ]);
+  const newCardsLeft = Math.max(0, newCardsPerDay - newCardsStudied);
+
+  const [due, learning, fresh] = await Promise.all([
+    deckCards(userId, deckId)
+      .gt("review_count", 0)
+      .gt("interval_days", 0)
+      .or(`next_review_date.is.null,next_review_date.lte.${now}`)
+      .order("next_review_date", { ascending: true, nullsFirst: true })
+      .limit(MAX_REVIEWS_PER_SESSION),
+    deckCards(userId, deckId)
+      .gt("review_count", 0)
+      .eq("interval_days", 0)
+      .order("next_review_date", { ascending: true })
+      .limit(MAX_REVIEWS_PER_SESSION),
+    newCardsLeft > 0
+      ? deckCards(userId, deckId)
+          .eq("review_count", 0)
+          .order("created_at", { ascending: true })
+          .limit(newCardsLeft)
+      : Promise.resolve({ data: [] as ReviewCard[], error: null }),
+  ]);
+
+  if (due.error) throw due.error;
+  if (learning.error) throw learning.error;
+  if (fresh.error) throw fresh.error;
+
+  const cards = [...(due.data || []), ...(learning.data || []), ...(fresh.data || [])];
+  return { cards, counts: countCards(cards) };
+};
+
+export const fetchBrowsePage = async (userId: string, page: number, deckId: string = ALL_DECK) => {
+  const from = page * BROWSE_PAGE_SIZE;
+  const { data, error } = await deckCards(userId, deckId)
+    .order("created_at", { ascending: false })
+    .range(from, from + BROWSE_PAGE_SIZE - 1);
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Lists the "All" and "Starred" smart decks followed by one deck per material,
+ * each with how many of its cards are due now and how many are still new.
+ */
+export const fetchDeckSummaries = async (userId: string): Promise<DeckSummary[]> => {
+  const [materials, flashcards] = await Promise.all([
+    fetchAllPages((from, to) =>
+      supabase
+        .from("materials")
+        .select("id, title")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false })
+        .order("id", { ascending: true })
+        .range(from, to)
+    ),
+    fetchAllPages((from, to) =>
+      supabase
+        .from("flashcards")
+        .select("material_id, is_starred, review_count, next_review_date")
+        .eq("user_id", userId)
+        .order("id", { ascending: true })
+        .range(from, to)
+    ),
+  ]);
+
+  const now = Date.now();
+  const empty = (id: string, title: string): DeckSummary => ({ id, title, total: 0, due: 0, new: 0 });
+  const all = empty(ALL_DECK, "All cards");
+  const starred = empty(STARRED_DECK, "Starred");
+  const byMaterial = new Map(materials.map((m) => [m.id, empty(m.id, m.title)]));
+
+  for (const card of flashcards) {
+    const isNew = !card.review_count;
+    const isDue = isCardDue(card, now);
+    const decks = [all, card.is_starred ? starred : null, byMaterial.get(card.material_id)];
+
+    for (const deck of decks) {
+      if (!deck) continue;
+      deck.total += 1;
+      if (isNew) deck.new += 1;
+      if (isDue) deck.due += 1;
+    }
+  }
+
+  return [all, starred, ...Array.from(byMaterial.values()).filter((deck) => deck.total > 0)];
+};
+
+export const fetchDeckTitle = async (deckId: string) => {
+  if (deckId === ALL_DECK) return "All cards";
+  if (deckId === STARRED_DECK) return "Starred";
+
+  const { data, error } = await supabase
+    .from("materials")
+    .select("title")
+    .eq("id", deckId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.title ?? "Flashcards";
+};
@@ -0,0 +1,153 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { ReviewGrade, ScheduledReview } from "@/lib/srs";
+import { fetchAllPages } from "@/lib/supabasePaging";
+
+// Cards with an interval of at least this many days count as mature
+export const MATURE_INTERVAL_DAYS = 21;
+
+export const STATS_HISTORY_DAYS = 30;
+export const FORECAST_DAYS = 14;
+
+export type DailyCount = { date: string; label: string; count: number };
+
+export type MaturityBuckets = {
+  new: number;
+  learning: number;
+  young: number;
+  mature: number;
+};
+
+export type ReviewStats = {
+  totalReviews: number;
+  // Share of reviews of already-learned cards that were not failed, 0-1
+  retentionRate: number | null;
+  reviewsPerDay: DailyCount[];
+  forecast: DailyCount[];
+  maturity: MaturityBuckets;
+};
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Steps by calendar day, so days stay aligned across daylight saving changes
+const addDays = (date: Date, days: number) => {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+};
+
+const dayKey = (date: Date) => startOfDay(date).toISOString();
+
+const dayRange = (from: Date, days: number): DailyCount[] =>
+  Array.from({ length: days }, (_, i) => {
+    const date = addDays(from, i);
+    return {
+      date: dayKey(date),
+      label: date.toLocaleDateString(undefined, { month: "short", day: "numeric" }),
+      count: 0,
+    };
+  });
+
+/**
+ * Saves the card's new schedule and logs the review in one transaction (see
+ * the record_flashcard_review database function). The daily new-card limit is
+ * counted from this log, so neither write may go through without the other.
+ */
+export const recordReview = async ({
+  flashcardId,
+  grade,
+  previousInterval,
+  scheduled,
+  responseTimeMs,
+}: {
+  flashcardId: string;
+  grade: ReviewGrade;
+  previousInterval: number;
+  scheduled: ScheduledReview;
+  responseTimeMs: number | null;
+}) => {
+  const { error } = await supabase.rpc("record_flashcard_review", {
+    p_flashcard_id: flashcardId,
+    p_grade: grade,
+    p_previous_interval: previousInterval,
+    p_ease_factor: scheduled.ease_factor,
+    p_interval_days: scheduled.interval_days,
+    p_review_count: scheduled.review_count,
+    p_next_review_date: scheduled.next_review_date,
+    p_response_time_ms: responseTimeMs,
+  });
+
+  if (error) throw error;
+};
+
+export const fetchReviewStats = async (userId: string): Promise<ReviewStats> => {
+  const today = startOfDay(new Date());
+  const historyStart = addDays(today, -(STATS_HISTORY_DAYS - 1));
+  const forecastEnd = addDays(today, FORECAST_DAYS);
+
+  const [reviews, cards] = await Promise.all([
+    fetchAllPages((from, to) =>
+      supabase
+        .from("flashcard_reviews")
+        .select("grade, previous_interval, reviewed_at")
+        .eq("user_id", userId)
+        .gte("reviewed_at", historyStart.toISOString())
+        .order("id", { ascending: true })
+        .range(from, to)
+    ),
+    fetchAllPages((from, to) =>
+      supabase
+        .from("flashcards")
+        .select("interval_days, review_count, next_review_date")
+        .eq("user_id", userId)
+        .order("id", { ascending: true })
+        .range(from, to)
+    ),
+  ]);
+
+  const reviewsPerDay = dayRange(historyStart, STATS_HISTORY_DAYS);
+  const reviewDays = new Map(reviewsPerDay.map((day) => [day.date, day]));
+  let retained = 0;
+  let recalled = 0;
+
+  for (const review of reviews) {
+    const day = reviewDays.get(dayKey(new Date(review.reviewed_at)));
+    if (day) day.count += 1;
+
+    // Only reviews of cards that had graduated from learning measure retention
+    if (review.previous_interval > 0) {
+      recalled += 1;
+      if (review.grade !== "again") retained += 1;
+    }
+  }
+
+  const forecast = dayRange(today, FORECAST_DAYS);
+  const forecastDays = new Map(forecast.map((day) => [day.date, day]));
+  const maturity: MaturityBuckets = { new: 0, learning: 0, young: 0, mature: 0 };
+
+  for (const card of cards) {
+    if (!card.review_count) {
+      maturity.new += 1;
+      continue;
+    }
+
+    const interval = card.interval_days ?? 0;
+    if (interval === 0) maturity.learning += 1;
+    else if (interval < MATURE_INTERVAL_DAYS) maturity.young += 1;
+    else maturity.mature += 1;
+
+    // Overdue cards are counted as due today
+    const due = card.next_review_date ? new Date(card.next_review_date) : today;
+    if (due < forecastEnd) {
+      const day = forecastDays.get(dayKey(due < today ? today : due));
+      if (day) day.count += 1;
+    }
+  }
+
+  return {
+    totalReviews: reviews.length,
+    retentionRate: recalled > 0 ? retained / recalled : null,
+    reviewsPerDay,
+    forecast,
+    maturity,
+  };
+};
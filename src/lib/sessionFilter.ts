@@ -0,0 +1,168 @@
+import { supabase } from "@/integrations/supabase/client";
+import { DIFFICULTIES, Difficulty } from "@/lib/flashcards";
+import { REVIEW_CARD_COLUMNS, ReviewCard } from "@/lib/reviewQueue";
+import { fetchAllPages } from "@/lib/supabasePaging";
+
+export type SessionOrder = "shuffle" | "due" | "newest" | "oldest" | "hardest";
+
+export type SessionFilter = {
+  difficulties: Difficulty[];
+  starredOnly: boolean;
+  materialIds: string[];
+  // Inclusive yyyy-mm-dd bounds on when the card was created
+  createdFrom: string;
+  createdTo: string;
+  leechesOnly: boolean;
+  order: SessionOrder;
+};
+
+export const SESSION_ORDERS: { value: SessionOrder; label: string }[] = [
+  { value: "shuffle", label: "Shuffled" },
+  { value: "due", label: "Most overdue first" },
+  { value: "hardest", label: "Hardest first" },
+  { value: "newest", label: "Newest first" },
+  { value: "oldest", label: "Oldest first" },
+];
+
+export const DEFAULT_SESSION_FILTER: SessionFilter = {
+  difficulties: [],
+  starredOnly: false,
+  materialIds: [],
+  createdFrom: "",
+  createdTo: "",
+  leechesOnly: false,
+  order: "shuffle",
+};
+
+// A card failed this many times is treated as a leech
+export const LEECH_THRESHOLD = 4;
+
+export const MAX_SESSION_CARDS = 200;
+
+const DIFFICULTY_RANK: Record<string, number> = { hard: 0, medium: 1, easy: 2 };
+
+const isDifficulty = (value: string): value is Difficulty =>
+  DIFFICULTIES.some((option) => option.value === value);
+
+const isOrder = (value: string): value is SessionOrder =>
+  SESSION_ORDERS.some((option) => option.value === value);
+
+const splitList = (value: string | null) => (value ? value.split(",").filter(Boolean) : []);
+
+export const filterToSearchParams = (filter: SessionFilter) => {
+  const params = new URLSearchParams();
+  if (filter.difficulties.length) params.set("difficulty", filter.difficulties.join(","));
+  if (filter.starredOnly) params.set("starred", "1");
+  if (filter.materialIds.length) params.set("material", filter.materialIds.join(","));
+  if (filter.createdFrom) params.set("from", filter.createdFrom);
+  if (filter.createdTo) params.set("to", filter.createdTo);
+  if (filter.leechesOnly) params.set("leeches", "1");
+  if (filter.order !== DEFAULT_SESSION_FILTER.order) params.set("order", filter.order);
+  return params;
+};
+
+export const filterFromSearchParams = (params: URLSearchParams): SessionFilter => {
+  const order = params.get("order") ?? "";
+  return {
+    difficulties: splitList(params.get("difficulty")).filter(isDifficulty),
+    starredOnly: params.get("starred") === "1",
+    materialIds: splitList(params.get("material")),
+    createdFrom: params.get("from") ?? "",
+    createdTo: params.get("to") ?? "",
+    leechesOnly: params.get("leeches") === "1",
+    order: isOrder(order) ? order : DEFAULT_SESSION_FILTER.order,
+  };
+};
+
+export const fetchLeechIds = async () => {
+  // Failures are counted per card by the flashcard_leeches database function
+  const leeches = await fetchAllPages((from, to) =>
+    supabase
+      .rpc("flashcard_leeches", { p_min_failures: LEECH_THRESHOLD })
+      .order("flashcard_id", { ascending: true })
+      .range(from, to)
+  );
+  return leeches.map((leech) => leech.flashcard_id);
+};
+
+const shuffle = <T,>(items: T[]) => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+const byDifficulty = <T extends { difficulty: string | null }>(cards: T[]) =>
+  [...cards].sort(
+    (a, b) => (DIFFICULTY_RANK[a.difficulty ?? ""] ?? 3) - (DIFFICULTY_RANK[b.difficulty ?? ""] ?? 3)
+  );
+
+const matchingCards = (
+  userId: string,
+  filter: SessionFilter,
+  leechIds: string[] | null,
+  options?: { count: "exact"; head: boolean }
+) => {
+  let query = supabase.from("flashcards").select("id, difficulty", options).eq("user_id", userId);
+
+  if (leechIds) query = query.in("id", leechIds);
+  if (filter.difficulties.length) query = query.in("difficulty", filter.difficulties);
+  if (filter.starredOnly) query = query.eq("is_starred", true);
+  if (filter.materialIds.length) query = query.in("material_id", filter.materialIds);
+  if (filter.createdFrom) query = query.gte("created_at", new Date(`${filter.createdFrom}T00:00:00`).toISOString());
+  if (filter.createdTo) query = query.lte("created_at", new Date(`${filter.createdTo}T23:59:59.999`).toISOString());
+  return query;
+};
+
+/**
+ * Picks the ids of the session's cards in session order. Shuffled and
+ * hardest-first sessions can't be ordered by the query, so they choose from
+ * every matching card before the session limit is applied.
+ */
+const pickSessionIds = async (userId: string, filter: SessionFilter, leechIds: string[] | null) => {
+  if (filter.order === "shuffle" || filter.order === "hardest") {
+    const cards = await fetchAllPages((from, to) =>
+      matchingCards(userId, filter, leechIds)
+        .order("created_at", { ascending: false })
+        .order("id", { ascending: true })
+        .range(from, to)
+    );
+    const ordered = filter.order === "shuffle" ? shuffle(cards) : byDifficulty(cards);
+    return ordered.slice(0, MAX_SESSION_CARDS).map((card) => card.id);
+  }
+
+  const query = matchingCards(userId, filter, leechIds);
+  const { data, error } = await (filter.order === "due"
+    ? query.order("next_review_date", { ascending: true })
+    : query.order("created_at", { ascending: filter.order === "oldest" })
+  ).limit(MAX_SESSION_CARDS);
+
+  if (error) throw error;
+  return (data || []).map((card) => card.id);
+};
+
+// How many cards match the filter, counted in the database without reading them
+export const countFilteredCards = async (userId: string, filter: SessionFilter) => {
+  const leechIds = filter.leechesOnly ? await fetchLeechIds() : null;
+  if (leechIds && leechIds.length === 0) return 0;
+
+  const { count, error } = await matchingCards(userId, filter, leechIds, { count: "exact", head: true });
+  if (error) throw error;
+  return count ?? 0;
+};
+
+export const fetchFilteredCards = async (userId: string, filter: SessionFilter): Promise<ReviewCard[]> => {
+  const leechIds = filter.leechesOnly ? await fetchLeechIds() : null;
+  if (leechIds && leechIds.length === 0) return [];
+
+  const ids = await pickSessionIds(userId, filter, leechIds);
+  if (ids.length === 0) return [];
+
+  const { data, error } = await supabase.from("flashcards").select(REVIEW_CARD_COLUMNS).in("id", ids);
+  if (error) throw error;
+
+  const position = new Map(ids.map((id, index) => [id, index]));
+  return (data || []).sort((a, b) => position.get(a.id) - position.get(b.id));
+};
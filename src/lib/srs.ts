@@ -0,0 +1,91 @@
+// SM-2 spaced-repetition scheduling for flashcards.
+// https://super-memory.com/english/ol/sm2.htm
+
+export type ReviewGrade = "again" | "hard" | "good" | "easy";
+
+export type SchedulingState = {
+  ease_factor: number | null;
+  interval_days: number | null;
+  review_count: number | null;
+  next_review_date: string | null;
+};
+
+export type ScheduledReview = {
+  ease_factor: number;
+  interval_days: number;
+  review_count: number;
+  next_review_date: string;
+};
+
+export const REVIEW_GRADES: { grade: ReviewGrade; label: string }[] = [
+  { grade: "again", label: "Again" },
+  { grade: "hard", label: "Hard" },
+  { grade: "good", label: "Good" },
+  { grade: "easy", label: "Easy" },
+];
+
+export const DEFAULT_EASE_FACTOR = 2.5;
+export const MIN_EASE_FACTOR = 1.3;
+
+// Failed cards come back within the same session instead of tomorrow
+export const RELEARN_DELAY_MINUTES = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// SM-2 response quality (0-5) for each button
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+const nextEaseFactor = (easeFactor: number, quality: number) => {
+  const updated = easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+  return Math.max(MIN_EASE_FACTOR, Math.round(updated * 100) / 100);
+};
+
+const nextInterval = (previousInterval: number, easeFactor: number) => {
+  if (previousInterval <= 0) return 1;
+  if (previousInterval === 1) return 6;
+  return Math.round(previousInterval * easeFactor);
+};
+
+/**
+ * Computes the next scheduling state of a card after it was graded.
+ * An interval of 0 means the card is (re)learning and due again shortly.
+ */
+export const scheduleReview = (
+  card: SchedulingState,
+  grade: ReviewGrade,
+  now: Date = new Date()
+): ScheduledReview => {
+  const quality = GRADE_QUALITY[grade];
+  const previousInterval = card.interval_days ?? 0;
+  const easeFactor = nextEaseFactor(card.ease_factor ?? DEFAULT_EASE_FACTOR, quality);
+  const reviewCount = (card.review_count ?? 0) + 1;
+
+  if (quality < 3) {
+    return {
+      ease_factor: easeFactor,
+      interval_days: 0,
+      review_count: reviewCount,
+      next_review_date: new Date(now.getTime() + RELEARN_DELAY_MINUTES * 60 * 1000).toISOString(),
+    };
+  }
+
+  const interval = nextInterval(previousInterval, easeFactor);
+  return {
+    ease_factor: easeFactor,
+    interval_days: interval,
+    review_count: reviewCount,
+    next_review_date: new Date(now.getTime() + interval * DAY_MS).toISOString(),
+  };
+};
+
+export const formatInterval = (days: number) => {
+  if (days <= 0) return `${RELEARN_DELAY_MINUTES}m`;
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+};
@@ -0,0 +1,19 @@
+// PostgREST caps each response, so whole tables are read a page at a time
+export const FETCH_PAGE_SIZE = 1000;
+
+/**
+ * Calls fetchPage with consecutive row ranges until a short page comes back.
+ * The query must have a stable order, or rows can repeat or go missing
+ * between pages.
+ */
+export const fetchAllPages = async <T,>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: Error | null }>
+) => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += FETCH_PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + FETCH_PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < FETCH_PAGE_SIZE) return rows;
+  }
+};
@@ -0,0 +1,146 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { displayAnswer } from "@/lib/quizGrading";
+import { insertQuestionsIntoNewQuiz } from "@/lib/quizzes";
+
+export type MissedQuestion = {
+  question: string;
+  correct_answer: string;
+  given_answer: string | null;
+  explanation: string | null;
+};
+
+export type LapsedFlashcard = {
+  question: string;
+  answer: string;
+};
+
+export type WeakSpots = {
+  missed: MissedQuestion[];
+  lapsed: LapsedFlashcard[];
+};
+
+type GeneratedQuestion = {
+  question: string;
+  type: string;
+  options: string[] | null;
+  correct_answer: string;
+  explanation: string | null;
+};
+
+// Keeps the prompt focused and small enough for a single request
+const MAX_MISSED_QUESTIONS = 20;
+const MAX_LAPSED_FLASHCARDS = 15;
+const LAPSE_WINDOW_DAYS = 30;
+const HISTORY_LIMIT = 500;
+
+export const WEAK_SPOTS_QUESTION_COUNT = 10;
+
+// A question is weak when the most recent answer to it was wrong
+const fetchMissedQuestions = async (userId: string): Promise<MissedQuestion[]> => {
+  const { data, error } = await supabase
+    .from("attempt_answers")
+    .select("question_id, given_answer, is_correct, questions(question_text, question_type, options, correct_answer, explanation)")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(HISTORY_LIMIT);
+
+  if (error) throw error;
+
+  const seen = new Set<string>();
+  const missed: MissedQuestion[] = [];
+  for (const answer of data || []) {
+    if (seen.has(answer.question_id)) continue;
+    seen.add(answer.question_id);
+
+    if (answer.is_correct || !answer.questions) continue;
+    missed.push({
+      question: answer.questions.question_text,
+      correct_answer: displayAnswer(answer.questions),
+      given_answer: answer.given_answer,
+      explanation: answer.questions.explanation,
+    });
+    if (missed.length === MAX_MISSED_QUESTIONS) break;
+  }
+  return missed;
+};
+
+// Cards forgotten most often in the last month come first
+const fetchLapsedFlashcards = async (userId: string): Promise<LapsedFlashcard[]> => {
+  const since = new Date(Date.now() - LAPSE_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const { data, error } = await supabase
+    .from("flashcard_reviews")
+    .select("flashcard_id")
+    .eq("user_id", userId)
+    .eq("grade", "again")
+    .gte("reviewed_at", since)
+    .order("reviewed_at", { ascending: false })
+    .limit(HISTORY_LIMIT);
+
+  if (error) throw error;
+
+  const lapses = new Map<string, number>();
+  for (const review of data || []) {
+    lapses.set(review.flashcard_id, (lapses.get(review.flashcard_id) ?? 0) + 1);
+  }
+  const ids = Array.from(lapses)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, MAX_LAPSED_FLASHCARDS)
+    .map(([id]) => id);
+  if (ids.length === 0) return [];
+
+  const { data: cards, error: cardsError } = await supabase
+    .from("flashcards")
+    .select("question, answer")
+    .in("id", ids);
+
+  if (cardsError) throw cardsError;
+  return cards || [];
+};
+
+export const collectWeakSpots = async (userId: string): Promise<WeakSpots> => {
+  const [missed, lapsed] = await Promise.all([fetchMissedQuestions(userId), fetchLapsedFlashcards(userId)]);
+  return { missed, lapsed };
+};
+
+export const hasWeakSpots = ({ missed, lapsed }: WeakSpots) => missed.length > 0 || lapsed.length > 0;
+
+/**
+ * Generates a targeted quiz from the student's weak spots and saves it as a
+ * regular quiz, so it shows up, plays and tracks history like any other.
+ */
+export const createWeakSpotsQuiz = async (userId: string, weakSpots: WeakSpots) => {
+  const { data, error } = await supabase.functions.invoke("generate-weak-spots-quiz", {
+    body: {
+      missed_questions: weakSpots.missed,
+      lapsed_flashcards: weakSpots.lapsed,
+      question_count: WEAK_SPOTS_QUESTION_COUNT,
+    },
+  });
+
+  if (error) throw error;
+
+  const { data: quiz, error: quizError } = await supabase
+    .from("quizzes")
+    .insert({
+      user_id: userId,
+      title: data.title || `Weak spots - ${new Date().toLocaleDateString()}`,
+    })
+    .select("id, title, created_at, time_limit_seconds")
+    .single();
+
+  if (quizError) throw quizError;
+
+  await insertQuestionsIntoNewQuiz(
+    quiz.id,
+    (data.quiz_questions as GeneratedQuestion[]).map((question, index) => ({
+      position: index,
+      question_text: question.question,
+      question_type: question.type,
+      options: question.options as Json,
+      correct_answer: question.correct_answer,
+      explanation: question.explanation,
+    }))
+  );
+  return quiz;
+};
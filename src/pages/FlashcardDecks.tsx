@@ -0,0 +1,145 @@
+import { useState, useEffect, useCallback, memo } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { BarChart3, BookOpen, Layers, Loader2, SlidersHorizontal, Star, Upload } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { toast } from "sonner";
+import { ALL_DECK, DeckSummary, STARRED_DECK, fetchDeckSummaries } from "@/lib/reviewQueue";
+import { ImportDeckDialog } from "@/components/flashcards/ImportDeckDialog";
+
+const deckIcon = (deckId: string) => {
+  if (deckId === ALL_DECK) return Layers;
+  if (deckId === STARRED_DECK) return Star;
+  return BookOpen;
+};
+
+const FlashcardDecks = memo(() => {
+  const [decks, setDecks] = useState<DeckSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [importOpen, setImportOpen] = useState(false);
+  const { user } = useAuth();
+  const navigate = useNavigate();
+
+  const fetchDecks = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setDecks(await fetchDeckSummaries(user.id));
+    } catch (error) {
+      console.error("Error fetching decks:", error);
+      toast.error("Failed to load your decks");
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchDecks();
+  }, [fetchDecks]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-hero flex items-center justify-center">
+        <Loader2 className="w-8 h-8 text-primary animate-spin" />
+      </div>
+    );
+  }
+
+  const hasCards = decks.some((deck) => deck.id === ALL_DECK && deck.total > 0);
+
+  return (
+    <div className="min-h-screen liquid-bg p-4 pb-24">
+      <header className="pt-8 pb-6 text-center fade-in-up">
+        <h1 className="text-3xl font-bold mb-2 bg-gradient-neon bg-clip-text text-transparent">Flashcards</h1>
+        <p className="text-muted-foreground text-sm">
+          Pick a deck to study
+        </p>
+        <div className="flex justify-center gap-2 mt-4">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => navigate("/flashcards/builder")}
+            className="rounded-full"
+          >
+            <SlidersHorizontal className="w-4 h-4 mr-2" /> Custom session
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => navigate("/flashcards/stats")}
+            className="rounded-full"
+          >
+            <BarChart3 className="w-4 h-4 mr-2" /> Statistics
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setImportOpen(true)}
+            className="rounded-full"
+          >
+            <Upload className="w-4 h-4 mr-2" /> Import
+          </Button>
+        </div>
+      </header>
+
+      <div className="max-w-md mx-auto space-y-3">
+        {!hasCards ? (
+          <Card className="glass-strong p-12 text-center shadow-glass">
+            <p className="text-sm text-muted-foreground">
+              No flashcards yet. Generate study materials to create flashcards!
+            </p>
+          </Card>
+        ) : (
+          decks.map((deck, idx) => {
+            const Icon = deckIcon(deck.id);
+
+            return (
+              <Card
+                key={deck.id}
+                onClick={() => navigate(`/flashcards/${deck.id}`)}
+                className="glass-strong p-5 shadow-glass fade-in-up hover:shadow-glow hover:-translate-y-1 transition-all duration-500 border-white/40 cursor-pointer"
+                style={{ animationDelay: `${idx * 0.05}s` }}
+              >
+                <div className="flex items-center gap-4">
+                  <div className="w-11 h-11 rounded-[14px] bg-gradient-neon flex items-center justify-center flex-shrink-0 shadow-neon">
+                    <Icon className="w-5 h-5 text-primary-foreground" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <h3 className="font-bold truncate">{deck.title}</h3>
+                    <p className="text-xs text-muted-foreground">
+                      {deck.total} {deck.total === 1 ? "card" : "cards"}
+                    </p>
+                  </div>
+                  <div className="flex gap-3 text-sm text-right">
+                    <div>
+                      <p className="font-bold text-primary">{deck.due}</p>
+                      <p className="text-[10px] text-muted-foreground uppercase tracking-wider">Due</p>
+                    </div>
+                    <div>
+                      <p className="font-bold">{deck.new}</p>
+                      <p className="text-[10px] text-muted-foreground uppercase tracking-wider">New</p>
+                    </div>
+                  </div>
+                </div>
+              </Card>
+            );
+          })
+        )}
+      </div>
+
+      {user && (
+        <ImportDeckDialog
+          open={importOpen}
+          onOpenChange={setImportOpen}
+          userId={user.id}
+          onImported={(materialId) => navigate(`/flashcards/${materialId}/manage`)}
+        />
+      )}
+    </div>
+  );
+});
+
+FlashcardDecks.displayName = 'FlashcardDecks';
+
+export default FlashcardDecks;
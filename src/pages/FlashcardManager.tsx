@@ -0,0 +1,484 @@
+import { useState, useEffect, useCallback, useMemo, memo } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ArrowLeft, Edit2, Loader2, Plus, Save, Star, Trash2, X } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useOptimisticUpdate } from "@/hooks/useOptimisticUpdate";
+import { toast } from "sonner";
+import { ALL_DECK, BROWSE_PAGE_SIZE, STARRED_DECK, fetchDeckTitle } from "@/lib/reviewQueue";
+import { DEFAULT_DIFFICULTY, DIFFICULTIES, Difficulty } from "@/lib/flashcards";
+import { clozeAnswer, hasCloze } from "@/lib/cloze";
+import { ClozeText } from "@/components/flashcards/ClozeText";
+import { NewFlashcard, NewFlashcardDialog } from "@/components/flashcards/NewFlashcardDialog";
+import { ExportDeckMenu } from "@/components/flashcards/ExportDeckMenu";
+
+type ManagedCard = {
+  id: string;
+  question: string;
+  answer: string;
+  card_type: string;
+  difficulty: string | null;
+  is_starred: boolean | null;
+  material_id: string | null;
+};
+
+type Material = {
+  id: string;
+  title: string;
+};
+
+const FlashcardManager = memo(() => {
+  const { materialId: deckId = ALL_DECK } = useParams();
+  const navigate = useNavigate();
+  const [deckTitle, setDeckTitle] = useState("");
+  const [cards, setCards] = useState<ManagedCard[]>([]);
+  const [materials, setMaterials] = useState<Material[]>([]);
+  const [page, setPage] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editQuestion, setEditQuestion] = useState("");
+  const [editAnswer, setEditAnswer] = useState("");
+  const [editDifficulty, setEditDifficulty] = useState<Difficulty>(DEFAULT_DIFFICULTY);
+  const [createOpen, setCreateOpen] = useState(false);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [idsToDelete, setIdsToDelete] = useState<string[]>([]);
+  const { user } = useAuth();
+  const applyOptimistic = useOptimisticUpdate(setCards);
+
+  const isMaterialDeck = deckId !== ALL_DECK && deckId !== STARRED_DECK;
+
+  const fetchPage = useCallback(async (pageIndex: number) => {
+    if (!user) return [];
+
+    const from = pageIndex * BROWSE_PAGE_SIZE;
+    let query = supabase
+      .from("flashcards")
+      .select("id, question, answer, card_type, difficulty, is_starred, material_id")
+      .eq("user_id", user.id);
+
+    if (deckId === STARRED_DECK) {
+      query = query.eq("is_starred", true);
+    } else if (isMaterialDeck) {
+      query = query.eq("material_id", deckId);
+    }
+
+    const { data, error } = await query
+      .order("created_at", { ascending: false })
+      .range(from, from + BROWSE_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    return data || [];
+  }, [user, deckId, isMaterialDeck]);
+
+  const fetchCards = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const [firstPage, title, materialList] = await Promise.all([
+        fetchPage(0),
+        fetchDeckTitle(deckId),
+        supabase
+          .from("materials")
+          .select("id, title")
+          .eq("user_id", user.id)
+          .order("created_at", { ascending: false }),
+      ]);
+
+      if (materialList.error) throw materialList.error;
+
+      setCards(firstPage);
+      setPage(0);
+      setHasMore(firstPage.length === BROWSE_PAGE_SIZE);
+      setDeckTitle(title);
+      setMaterials(materialList.data || []);
+      setSelectedIds(new Set());
+    } catch (error) {
+      console.error("Error fetching flashcards:", error);
+      toast.error("Failed to load flashcards");
+    } finally {
+      setLoading(false);
+    }
+  }, [user, deckId, fetchPage]);
+
+  useEffect(() => {
+    fetchCards();
+  }, [fetchCards]);
+
+  const loadMore = async () => {
+    try {
+      const nextPage = await fetchPage(page + 1);
+      setCards((prev) => [...prev, ...nextPage]);
+      setPage((prev) => prev + 1);
+      setHasMore(nextPage.length === BROWSE_PAGE_SIZE);
+    } catch (error) {
+      console.error("Error fetching flashcards:", error);
+      toast.error("Failed to load more flashcards");
+    }
+  };
+
+  const materialTitles = useMemo(
+    () => new Map(materials.map((material) => [material.id, material.title])),
+    [materials]
+  );
+
+  const selected = Array.from(selectedIds);
+
+  const toggleSelected = (cardId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(cardId)) next.delete(cardId);
+      else next.add(cardId);
+      return next;
+    });
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds(selectedIds.size === cards.length ? new Set() : new Set(cards.map((card) => card.id)));
+  };
+
+  const handleEdit = (card: ManagedCard) => {
+    setEditingId(card.id);
+    setEditQuestion(card.question);
+    setEditAnswer(card.answer);
+    setEditDifficulty((card.difficulty as Difficulty) || DEFAULT_DIFFICULTY);
+  };
+
+  const handleCancelEdit = () => {
+    setEditingId(null);
+    setEditQuestion("");
+    setEditAnswer("");
+  };
+
+  const handleSave = async (card: ManagedCard) => {
+    const isCloze = card.card_type === "cloze";
+    if (isCloze && !hasCloze(editQuestion)) {
+      toast.error("Mark at least one deletion, e.g. {{c1::mitochondria}}");
+      return;
+    }
+    if (!editQuestion.trim() || (!isCloze && !editAnswer.trim())) {
+      toast.error("Question and answer cannot be empty");
+      return;
+    }
+
+    const cardId = card.id;
+    const changes = {
+      question: editQuestion.trim(),
+      answer: isCloze ? clozeAnswer(editQuestion) : editAnswer.trim(),
+      difficulty: editDifficulty,
+    };
+
+    handleCancelEdit();
+    await applyOptimistic(
+      (prev) => prev.map((card) => (card.id === cardId ? { ...card, ...changes } : card)),
+      () => supabase.from("flashcards").update(changes).eq("id", cardId),
+      "Failed to update flashcard"
+    );
+  };
+
+  const handleCreate = async (newCard: NewFlashcard) => {
+    if (!user) return false;
+
+    const card: ManagedCard = { id: crypto.randomUUID(), is_starred: false, ...newCard };
+    const visibleHere = deckId === ALL_DECK || newCard.material_id === deckId;
+
+    const created = await applyOptimistic(
+      (prev) => (visibleHere ? [card, ...prev] : prev),
+      () => supabase.from("flashcards").insert({ ...card, user_id: user.id }),
+      "Failed to create flashcard"
+    );
+    if (created) toast.success("Flashcard added");
+    return created;
+  };
+
+  const handleBulkStar = async (isStarred: boolean) => {
+    const ids = selected;
+
+    await applyOptimistic(
+      (prev) =>
+        prev
+          .map((card) => (selectedIds.has(card.id) ? { ...card, is_starred: isStarred } : card))
+          .filter((card) => deckId !== STARRED_DECK || card.is_starred),
+      () => supabase.from("flashcards").update({ is_starred: isStarred }).in("id", ids),
+      "Failed to update flashcards"
+    );
+  };
+
+  const handleBulkMove = async (targetMaterialId: string) => {
+    const ids = selected;
+
+    const moved = await applyOptimistic(
+      (prev) =>
+        prev
+          .map((card) => (selectedIds.has(card.id) ? { ...card, material_id: targetMaterialId } : card))
+          .filter((card) => !isMaterialDeck || card.material_id === deckId),
+      () => supabase.from("flashcards").update({ material_id: targetMaterialId }).in("id", ids),
+      "Failed to move flashcards"
+    );
+    if (moved) {
+      setSelectedIds(new Set());
+      toast.success(`Moved ${ids.length} ${ids.length === 1 ? "card" : "cards"} to ${materialTitles.get(targetMaterialId)}`);
+    }
+  };
+
+  const handleDeleteClick = (ids: string[]) => {
+    setIdsToDelete(ids);
+    setDeleteDialogOpen(true);
+  };
+
+  const handleDeleteConfirm = async () => {
+    const ids = idsToDelete;
+    setDeleteDialogOpen(false);
+    setIdsToDelete([]);
+
+    const deleted = await applyOptimistic(
+      (prev) => prev.filter((card) => !ids.includes(card.id)),
+      () => supabase.from("flashcards").delete().in("id", ids),
+      "Failed to delete flashcards"
+    );
+    if (deleted) {
+      setSelectedIds((prev) => new Set(Array.from(prev).filter((id) => !ids.includes(id))));
+      toast.success(ids.length === 1 ? "Flashcard deleted" : `Deleted ${ids.length} flashcards`);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-hero flex items-center justify-center">
+        <Loader2 className="w-8 h-8 text-primary animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen liquid-bg p-4 pb-24">
+      <header className="pt-8 pb-6 text-center fade-in-up relative">
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => navigate(`/flashcards/${deckId}`)}
+          className="absolute left-0 top-8 rounded-full"
+        >
+          <ArrowLeft className="w-4 h-4 mr-1" /> Study
+        </Button>
+        <h1 className="text-3xl font-bold mb-2 bg-gradient-neon bg-clip-text text-transparent px-20 truncate">{deckTitle}</h1>
+        <p className="text-muted-foreground text-sm">Manage flashcards</p>
+      </header>
+
+      <div className="max-w-2xl mx-auto space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <label className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Checkbox
+              checked={cards.length > 0 && selectedIds.size === cards.length}
+              onCheckedChange={toggleSelectAll}
+            />
+            Select all
+          </label>
+          <div className="flex gap-2">
+            {user && <ExportDeckMenu userId={user.id} deckId={deckId} deckTitle={deckTitle} />}
+            <Button
+              size="sm"
+              onClick={() => setCreateOpen(true)}
+              disabled={materials.length === 0}
+              className="rounded-full"
+            >
+              <Plus className="w-4 h-4 mr-1" /> New card
+            </Button>
+          </div>
+        </div>
+
+        {selected.length > 0 && (
+          <Card className="glass-strong p-3 shadow-glass border-white/40 flex flex-wrap items-center gap-2 sticky top-2 z-10">
+            <span className="text-sm font-semibold mr-auto">{selected.length} selected</span>
+            <Button size="sm" variant="outline" onClick={() => handleBulkStar(true)}>
+              <Star className="w-4 h-4 mr-1" /> Star
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => handleBulkStar(false)}>
+              Unstar
+            </Button>
+            <Select value="" onValueChange={handleBulkMove}>
+              <SelectTrigger className="h-9 w-36">
+                <SelectValue placeholder="Move to…" />
+              </SelectTrigger>
+              <SelectContent>
+                {materials.map((material) => (
+                  <SelectItem key={material.id} value={material.id}>
+                    {material.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => handleDeleteClick(selected)}
+              className="hover:bg-destructive/10 text-destructive hover:text-destructive"
+            >
+              <Trash2 className="w-4 h-4 mr-1" /> Delete
+            </Button>
+          </Card>
+        )}
+
+        {cards.length === 0 ? (
+          <Card className="glass-strong p-12 text-center shadow-glass">
+            <p className="text-sm text-muted-foreground">No flashcards in this deck yet.</p>
+          </Card>
+        ) : (
+          cards.map((card) => (
+            <Card key={card.id} className="glass-strong p-5 shadow-glass border-white/40">
+              <div className="flex items-start gap-3">
+                <Checkbox
+                  checked={selectedIds.has(card.id)}
+                  onCheckedChange={() => toggleSelected(card.id)}
+                  className="mt-1"
+                />
+                <div className="flex-1 min-w-0">
+                  {editingId === card.id ? (
+                    <div className="space-y-3">
+                      <Input
+                        value={editQuestion}
+                        onChange={(e) => setEditQuestion(e.target.value)}
+                        placeholder="Question"
+                      />
+                      {card.card_type !== "cloze" && (
+                        <Textarea
+                          value={editAnswer}
+                          onChange={(e) => setEditAnswer(e.target.value)}
+                          className="min-h-[100px] text-sm"
+                          placeholder="Answer"
+                        />
+                      )}
+                      <div className="flex items-center gap-2">
+                        <Select value={editDifficulty} onValueChange={(value) => setEditDifficulty(value as Difficulty)}>
+                          <SelectTrigger className="h-9 w-32">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {DIFFICULTIES.map((option) => (
+                              <SelectItem key={option.value} value={option.value}>
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button size="sm" onClick={() => handleSave(card)} className="ml-auto">
+                          <Save className="w-4 h-4 mr-1" /> Save
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={handleCancelEdit}>
+                          <X className="w-4 h-4 mr-1" /> Cancel
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <>
+                      {card.card_type === "cloze" ? (
+                        <p className="font-semibold mb-3">
+                          <ClozeText text={card.question} revealed />
+                        </p>
+                      ) : (
+                        <>
+                          <p className="font-semibold mb-1">{card.question}</p>
+                          <p className="text-sm text-foreground/70 line-clamp-3 mb-3">{card.answer}</p>
+                        </>
+                      )}
+                      <div className="flex items-center gap-2 flex-wrap">
+                        {card.card_type !== "basic" && (
+                          <Badge variant="outline" className="capitalize">{card.card_type}</Badge>
+                        )}
+                        {card.difficulty && (
+                          <Badge variant="secondary" className="capitalize">{card.difficulty}</Badge>
+                        )}
+                        {card.is_starred && (
+                          <Star className="w-4 h-4 text-primary fill-current" />
+                        )}
+                        {deckId === ALL_DECK || deckId === STARRED_DECK ? (
+                          <span className="text-xs text-muted-foreground truncate">
+                            {materialTitles.get(card.material_id) ?? ""}
+                          </span>
+                        ) : null}
+                        <div className="ml-auto flex gap-1">
+                          <Button size="sm" variant="ghost" onClick={() => handleEdit(card)} className="hover:bg-primary/10">
+                            <Edit2 className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => handleDeleteClick([card.id])}
+                            className="hover:bg-destructive/10 text-destructive hover:text-destructive"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    </>
+                  )}
+                </div>
+              </div>
+            </Card>
+          ))
+        )}
+
+        {hasMore && (
+          <Button variant="outline" onClick={loadMore} className="w-full rounded-full">
+            Load more
+          </Button>
+        )}
+      </div>
+
+      <NewFlashcardDialog
+        open={createOpen}
+        onOpenChange={setCreateOpen}
+        materials={materials}
+        defaultMaterialId={isMaterialDeck ? deckId : undefined}
+        onCreate={handleCreate}
+      />
+
+      <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {idsToDelete.length === 1
+                ? "Are you sure you want to delete this flashcard?"
+                : `Are you sure you want to delete ${idsToDelete.length} flashcards?`}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              This action cannot be undone. This will permanently delete the
+              selected flashcards and their review history from our servers.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDeleteConfirm}
+              className="bg-destructive hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+});
+
+FlashcardManager.displayName = 'FlashcardManager';
+
+export default FlashcardManager;
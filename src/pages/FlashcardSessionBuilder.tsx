@@ -0,0 +1,264 @@
+import { useState, useEffect, useCallback, useMemo, memo } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Loader2, Play, RotateCcw } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { toast } from "sonner";
+import { DIFFICULTIES, Difficulty } from "@/lib/flashcards";
+import { SESSION_DECK } from "@/lib/reviewQueue";
+import {
+  DEFAULT_SESSION_FILTER,
+  LEECH_THRESHOLD,
+  MAX_SESSION_CARDS,
+  SESSION_ORDERS,
+  SessionFilter,
+  SessionOrder,
+  countFilteredCards,
+  filterFromSearchParams,
+  filterToSearchParams,
+} from "@/lib/sessionFilter";
+
+type Material = {
+  id: string;
+  title: string;
+};
+
+const FlashcardSessionBuilder = memo(() => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filter = useMemo(() => filterFromSearchParams(searchParams), [searchParams]);
+  const [materials, setMaterials] = useState<Material[]>([]);
+  const [matchCount, setMatchCount] = useState<number | null>(null);
+  const [countFailed, setCountFailed] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+
+  const fetchMaterials = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from("materials")
+        .select("id, title")
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setMaterials(data || []);
+    } catch (error) {
+      console.error("Error fetching materials:", error);
+      toast.error("Failed to load your materials");
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchMaterials();
+  }, [fetchMaterials]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+    setMatchCount(null);
+    setCountFailed(false);
+    countFilteredCards(user.id, filter)
+      .then((count) => {
+        if (!cancelled) setMatchCount(count);
+      })
+      .catch((error) => {
+        console.error("Error counting flashcards:", error);
+        if (cancelled) return;
+        setCountFailed(true);
+        toast.error("Failed to count matching cards");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, filter]);
+
+  // The URL is the source of truth so a configured session can be bookmarked
+  const updateFilter = (changes: Partial<SessionFilter>) => {
+    setSearchParams(filterToSearchParams({ ...filter, ...changes }), { replace: true });
+  };
+
+  const toggleDifficulty = (difficulty: Difficulty) => {
+    updateFilter({
+      difficulties: filter.difficulties.includes(difficulty)
+        ? filter.difficulties.filter((value) => value !== difficulty)
+        : [...filter.difficulties, difficulty],
+    });
+  };
+
+  const toggleMaterial = (materialId: string) => {
+    updateFilter({
+      materialIds: filter.materialIds.includes(materialId)
+        ? filter.materialIds.filter((value) => value !== materialId)
+        : [...filter.materialIds, materialId],
+    });
+  };
+
+  const startSession = () => {
+    navigate(`/flashcards/${SESSION_DECK}?${filterToSearchParams(filter)}`);
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-hero flex items-center justify-center">
+        <Loader2 className="w-8 h-8 text-primary animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen liquid-bg p-4 pb-24">
+      <header className="pt-8 pb-6 text-center fade-in-up relative">
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => navigate("/flashcards")}
+          className="absolute left-0 top-8 rounded-full"
+        >
+          <ArrowLeft className="w-4 h-4 mr-1" /> Decks
+        </Button>
+        <h1 className="text-3xl font-bold mb-2 bg-gradient-neon bg-clip-text text-transparent">Custom Session</h1>
+        <p className="text-muted-foreground text-sm">
+          Choose which cards to study
+        </p>
+      </header>
+
+      <div className="max-w-md mx-auto space-y-4">
+        <Card className="glass-strong p-5 shadow-glass fade-in-up border-white/40 space-y-5">
+          <div>
+            <p className="text-sm font-medium mb-2">Difficulty</p>
+            <div className="flex gap-2">
+              {DIFFICULTIES.map((option) => (
+                <Button
+                  key={option.value}
+                  size="sm"
+                  variant={filter.difficulties.includes(option.value) ? "default" : "outline"}
+                  onClick={() => toggleDifficulty(option.value)}
+                  className="rounded-full flex-1"
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <label className="flex items-center justify-between gap-3 text-sm font-medium">
+            Starred only
+            <Switch
+              checked={filter.starredOnly}
+              onCheckedChange={(checked) => updateFilter({ starredOnly: checked })}
+            />
+          </label>
+
+          <label className="flex items-center justify-between gap-3 text-sm font-medium">
+            <span>
+              Leeches only
+              <span className="block text-xs text-muted-foreground font-normal">
+                Cards you have failed {LEECH_THRESHOLD} or more times
+              </span>
+            </span>
+            <Switch
+              checked={filter.leechesOnly}
+              onCheckedChange={(checked) => updateFilter({ leechesOnly: checked })}
+            />
+          </label>
+
+          <div>
+            <p className="text-sm font-medium mb-2">Created between</p>
+            <div className="flex items-center gap-2">
+              <Input
+                type="date"
+                value={filter.createdFrom}
+                max={filter.createdTo || undefined}
+                onChange={(e) => updateFilter({ createdFrom: e.target.value })}
+                className="glass border-white/30 rounded-[16px]"
+              />
+              <span className="text-muted-foreground text-sm">–</span>
+              <Input
+                type="date"
+                value={filter.createdTo}
+                min={filter.createdFrom || undefined}
+                onChange={(e) => updateFilter({ createdTo: e.target.value })}
+                className="glass border-white/30 rounded-[16px]"
+              />
+            </div>
+          </div>
+
+          <div>
+            <p className="text-sm font-medium mb-2">Order</p>
+            <Select value={filter.order} onValueChange={(value) => updateFilter({ order: value as SessionOrder })}>
+              <SelectTrigger className="glass border-white/30 rounded-[16px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SESSION_ORDERS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </Card>
+
+        {materials.length > 0 && (
+          <Card className="glass-strong p-5 shadow-glass fade-in-up border-white/40" style={{ animationDelay: '0.1s' }}>
+            <p className="text-sm font-medium mb-1">Materials</p>
+            <p className="text-xs text-muted-foreground mb-3">
+              {filter.materialIds.length === 0 ? "All materials" : `${filter.materialIds.length} selected`}
+            </p>
+            <div className="space-y-2 max-h-60 overflow-y-auto">
+              {materials.map((material) => (
+                <label key={material.id} className="flex items-center gap-3 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={filter.materialIds.includes(material.id)}
+                    onCheckedChange={() => toggleMaterial(material.id)}
+                  />
+                  <span className="truncate">{material.title}</span>
+                </label>
+              ))}
+            </div>
+          </Card>
+        )}
+
+        <div className="flex gap-2 fade-in-up" style={{ animationDelay: '0.2s' }}>
+          <Button
+            variant="outline"
+            onClick={() => setSearchParams(filterToSearchParams(DEFAULT_SESSION_FILTER), { replace: true })}
+            className="rounded-full"
+          >
+            <RotateCcw className="w-4 h-4 mr-2" /> Reset
+          </Button>
+          <Button
+            onClick={startSession}
+            disabled={matchCount === 0 || (matchCount === null && !countFailed)}
+            className="rounded-full flex-1 bg-gradient-neon"
+          >
+            <Play className="w-4 h-4 mr-2" />
+            {countFailed
+              ? "Study matching cards"
+              : matchCount === null
+                ? "Counting cards…"
+                : `Study ${Math.min(matchCount, MAX_SESSION_CARDS)}${matchCount > MAX_SESSION_CARDS ? "+" : ""} ${matchCount === 1 ? "card" : "cards"}`}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+});
+
+FlashcardSessionBuilder.displayName = 'FlashcardSessionBuilder';
+
+export default FlashcardSessionBuilder;
@@ -0,0 +1,170 @@
+import { useState, useEffect, useCallback, memo } from "react";
+import { useNavigate } from "react-router-dom";
+import { Bar, BarChart, XAxis, YAxis } from "recharts";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { toast } from "sonner";
+import {
+  DailyCount,
+  FORECAST_DAYS,
+  MATURE_INTERVAL_DAYS,
+  ReviewStats,
+  STATS_HISTORY_DAYS,
+  fetchReviewStats,
+} from "@/lib/reviewStats";
+
+const chartConfig = {
+  count: { label: "Cards", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const CountChart = ({ data }: { data: DailyCount[] }) => (
+  <ChartContainer config={chartConfig} className="h-40 w-full">
+    <BarChart data={data}>
+      <XAxis dataKey="label" tickLine={false} axisLine={false} fontSize={10} interval="preserveStartEnd" />
+      <YAxis allowDecimals={false} tickLine={false} axisLine={false} fontSize={10} width={24} />
+      <ChartTooltip content={<ChartTooltipContent />} />
+      <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+    </BarChart>
+  </ChartContainer>
+);
+
+const FlashcardStats = memo(() => {
+  const [stats, setStats] = useState<ReviewStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const navigate = useNavigate();
+
+  const fetchStats = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setStats(await fetchReviewStats(user.id));
+    } catch (error) {
+      console.error("Error fetching review stats:", error);
+      toast.error("Failed to load statistics");
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchStats();
+  }, [fetchStats]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-hero flex items-center justify-center">
+        <Loader2 className="w-8 h-8 text-primary animate-spin" />
+      </div>
+    );
+  }
+
+  if (!stats) {
+    return (
+      <div className="min-h-screen liquid-bg p-4 pb-24 flex items-center justify-center">
+        <Card className="glass-strong p-8 max-w-md w-full text-center shadow-glass border-white/40">
+          <h2 className="font-bold mb-2">Statistics couldn't be loaded</h2>
+          <p className="text-sm text-muted-foreground mb-6">Check your connection and try again.</p>
+          <div className="flex gap-2 justify-center">
+            <Button variant="outline" onClick={() => navigate("/flashcards")} className="rounded-full">
+              <ArrowLeft className="w-4 h-4 mr-1" /> Decks
+            </Button>
+            <Button
+              onClick={() => {
+                setLoading(true);
+                fetchStats();
+              }}
+              className="rounded-full bg-gradient-neon"
+            >
+              Try again
+            </Button>
+          </div>
+        </Card>
+      </div>
+    );
+  }
+
+  const maturity = [
+    { label: "New", count: stats.maturity.new },
+    { label: "Learning", count: stats.maturity.learning },
+    { label: "Young", count: stats.maturity.young },
+    { label: "Mature", count: stats.maturity.mature },
+  ];
+  const totalCards = maturity.reduce((sum, bucket) => sum + bucket.count, 0);
+
+  return (
+    <div className="min-h-screen liquid-bg p-4 pb-24">
+      <header className="pt-8 pb-6 text-center fade-in-up relative">
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => navigate("/flashcards")}
+          className="absolute left-0 top-8 rounded-full"
+        >
+          <ArrowLeft className="w-4 h-4 mr-1" /> Decks
+        </Button>
+        <h1 className="text-3xl font-bold mb-2 bg-gradient-neon bg-clip-text text-transparent">Statistics</h1>
+        <p className="text-muted-foreground text-sm">
+          Last {STATS_HISTORY_DAYS} days of reviews
+        </p>
+      </header>
+
+      <div className="max-w-md mx-auto space-y-4">
+        <div className="grid grid-cols-2 gap-4 fade-in-up">
+          <Card className="glass-strong p-5 text-center shadow-glass border-white/40">
+            <p className="text-3xl font-bold bg-gradient-neon bg-clip-text text-transparent">
+              {stats.retentionRate === null ? "–" : `${Math.round(stats.retentionRate * 100)}%`}
+            </p>
+            <p className="text-xs text-muted-foreground font-medium mt-1">True retention</p>
+          </Card>
+          <Card className="glass-strong p-5 text-center shadow-glass border-white/40">
+            <p className="text-3xl font-bold bg-gradient-neon bg-clip-text text-transparent">
+              {stats.totalReviews}
+            </p>
+            <p className="text-xs text-muted-foreground font-medium mt-1">Reviews</p>
+          </Card>
+        </div>
+
+        <Card className="glass-strong p-5 shadow-glass fade-in-up border-white/40">
+          <h2 className="font-bold mb-4">Reviews per day</h2>
+          <CountChart data={stats.reviewsPerDay} />
+        </Card>
+
+        <Card className="glass-strong p-5 shadow-glass fade-in-up border-white/40">
+          <h2 className="font-bold mb-4">Due in the next {FORECAST_DAYS} days</h2>
+          <CountChart data={stats.forecast} />
+        </Card>
+
+        <Card className="glass-strong p-5 shadow-glass fade-in-up border-white/40">
+          <h2 className="font-bold mb-1">Card maturity</h2>
+          <p className="text-xs text-muted-foreground mb-4">
+            Mature cards have an interval of {MATURE_INTERVAL_DAYS} days or more
+          </p>
+          <div className="space-y-3">
+            {maturity.map((bucket) => (
+              <div key={bucket.label}>
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="text-muted-foreground font-medium">{bucket.label}</span>
+                  <span className="font-semibold">{bucket.count}</span>
+                </div>
+                <div className="h-2 bg-white/20 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-gradient-neon transition-all duration-700"
+                    style={{ width: `${totalCards ? (bucket.count / totalCards) * 100 : 0}%` }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+});
+
+FlashcardStats.displayName = 'FlashcardStats';
+
+export default FlashcardStats;
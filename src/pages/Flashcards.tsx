@@ -1,50 +1,149 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { ChevronLeft, ChevronRight, Star, Loader2 } from "lucide-react";
-import { supabase } from "@/integrations/supabase/client";
+import { Switch } from "@/components/ui/switch";
+import { ArrowLeft, ChevronLeft, ChevronRight, Star, Loader2, CheckCircle2, ListChecks, Keyboard, SlidersHorizontal } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
+import { useHotkeys } from "@/hooks/useHotkeys";
+import { useSwipe } from "@/hooks/useSwipe";
+import { supabase } from "@/integrations/supabase/client";
 import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+import { ReviewGrade, scheduleReview } from "@/lib/srs";
+import { recordReview } from "@/lib/reviewStats";
+import { AnswerMatch, matchAnswer } from "@/lib/answerMatch";
+import { expectedAnswer } from "@/lib/flashcards";
+import { fetchFilteredCards, filterFromSearchParams } from "@/lib/sessionFilter";
+import {
+  ALL_DECK,
+  BROWSE_PAGE_SIZE,
+  ReviewCard,
+  SESSION_DECK,
+  countCards,
+  fetchBrowsePage,
+  fetchDeckTitle,
+  fetchReviewQueue,
+} from "@/lib/reviewQueue";
+import { FlashcardFace } from "@/components/flashcards/FlashcardFace";
+import { ReviewGradeButtons } from "@/components/flashcards/ReviewGradeButtons";
+import { TypedAnswerPanel } from "@/components/flashcards/TypedAnswerPanel";
+import { ShortcutOverlay } from "@/components/flashcards/ShortcutOverlay";
 
-type Flashcard = {
-  id: string;
-  question: string;
-  answer: string;
-  is_starred: boolean;
-};
+type StudyMode = "due" | "browse";
+
+const TYPED_ANSWERS_KEY = "flashcardTypedAnswers";
 
 const Flashcards = () => {
-  const [cards, setCards] = useState<Flashcard[]>([]);
+  const { materialId: deckId = ALL_DECK } = useParams();
+  const [searchParams] = useSearchParams();
+  const isSession = deckId === SESSION_DECK;
+  const sessionQuery = searchParams.toString();
+  const sessionFilter = useMemo(() => filterFromSearchParams(new URLSearchParams(sessionQuery)), [sessionQuery]);
+  const navigate = useNavigate();
+  const [deckTitle, setDeckTitle] = useState("");
+  const [mode, setMode] = useState<StudyMode>("due");
+  const [queue, setQueue] = useState<ReviewCard[]>([]);
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const [cards, setCards] = useState<ReviewCard[]>([]);
+  const [browsePage, setBrowsePage] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
   const [currentCard, setCurrentCard] = useState(0);
   const [flipped, setFlipped] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [grading, setGrading] = useState(false);
+  const [typeAnswers, setTypeAnswers] = useState(() => localStorage.getItem(TYPED_ANSWERS_KEY) === "true");
+  const [typedAnswer, setTypedAnswer] = useState("");
+  const [answerMatch, setAnswerMatch] = useState<AnswerMatch | null>(null);
+  const [shortcutsOpen, setShortcutsOpen] = useState(false);
   const { user } = useAuth();
 
-  useEffect(() => {
-    fetchFlashcards();
-  }, [user]);
+  const loadBrowse = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      // Custom sessions are capped server-side, so they arrive in one page
+      const page = isSession
+        ? await fetchFilteredCards(user.id, sessionFilter)
+        : await fetchBrowsePage(user.id, 0, deckId);
+      setCards(page);
+      setBrowsePage(0);
+      setHasMore(!isSession && page.length === BROWSE_PAGE_SIZE);
+      setCurrentCard(0);
+      setFlipped(false);
+      setMode("browse");
+    } catch (error) {
+      console.error("Error fetching flashcards:", error);
+    }
+  }, [user, deckId, isSession, sessionFilter]);
 
-  const fetchFlashcards = async () => {
+  const loadQueue = useCallback(async () => {
     if (!user) return;
-    
+
     try {
-      const { data, error } = await supabase
-        .from("flashcards")
-        .select("*")
-        .eq("user_id", user.id)
-        .order("created_at", { ascending: false });
+      const [dueCards, title] = isSession
+        ? [await fetchFilteredCards(user.id, sessionFilter), "Custom session"]
+        : await Promise.all([
+            fetchReviewQueue(user.id, deckId).then((reviewQueue) => reviewQueue.cards),
+            fetchDeckTitle(deckId),
+          ]);
+      setDeckTitle(title);
+      setQueue(dueCards);
+      setReviewedCount(0);
+      setFlipped(false);
+      setTypedAnswer("");
+      setAnswerMatch(null);
 
-      if (error) throw error;
-      setCards(data || []);
+      if (dueCards.length === 0) {
+        await loadBrowse();
+      } else {
+        setMode("due");
+      }
     } catch (error) {
-      console.error("Error fetching flashcards:", error);
+      console.error("Error fetching review queue:", error);
+      toast.error("Failed to load your review queue");
     } finally {
       setLoading(false);
     }
+  }, [user, deckId, isSession, sessionFilter, loadBrowse]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const counts = useMemo(() => countCards(queue), [queue]);
+  const activeCard = mode === "due" ? queue[0] : cards[currentCard];
+  const isTyping = mode === "due" && typeAnswers;
+
+  // Response time is measured from when a card is shown until it is graded
+  const shownAt = useRef(Date.now());
+  useEffect(() => {
+    shownAt.current = Date.now();
+  }, [activeCard?.id, reviewedCount]);
+
+  const loadMore = async () => {
+    if (!user) return;
+
+    try {
+      const nextPage = browsePage + 1;
+      const page = await fetchBrowsePage(user.id, nextPage, deckId);
+      setCards((prev) => [...prev, ...page]);
+      setBrowsePage(nextPage);
+      setHasMore(page.length === BROWSE_PAGE_SIZE);
+      if (page.length > 0) {
+        setCurrentCard((prev) => prev + 1);
+      }
+    } catch (error) {
+      console.error("Error fetching flashcards:", error);
+    }
   };
 
   const handleNext = () => {
-    setCurrentCard((prev) => (prev + 1) % cards.length);
+    if (currentCard === cards.length - 1 && hasMore) {
+      loadMore();
+    } else {
+      setCurrentCard((prev) => (prev + 1) % cards.length);
+    }
     setFlipped(false);
   };
 
@@ -53,25 +152,112 @@ const Flashcards = () => {
     setFlipped(false);
   };
 
+  const toggleTypeAnswers = (enabled: boolean) => {
+    setTypeAnswers(enabled);
+    localStorage.setItem(TYPED_ANSWERS_KEY, String(enabled));
+  };
+
+  const handleFlip = () => {
+    if (!activeCard) return;
+    // In typed mode the answer is only revealed by checking what was typed
+    if (isTyping && !answerMatch) return;
+    setFlipped((prev) => !prev);
+  };
+
+  const handleCheckAnswer = () => {
+    if (!activeCard) return;
+    setAnswerMatch(matchAnswer(typedAnswer, expectedAnswer(activeCard)));
+    setFlipped(true);
+  };
+
+  const handleGrade = async (grade: ReviewGrade) => {
+    const card = queue[0];
+    if (!card || grading || !user) return;
+
+    const scheduled = scheduleReview(card, grade);
+
+    setGrading(true);
+    try {
+      await recordReview({
+        flashcardId: card.id,
+        grade,
+        previousInterval: card.interval_days ?? 0,
+        scheduled,
+        responseTimeMs: Date.now() - shownAt.current,
+      });
+
+      // Failed cards go to the back of the session so they come up again
+      const remaining = queue.slice(1);
+      setQueue(scheduled.interval_days === 0 ? [...remaining, { ...card, ...scheduled }] : remaining);
+      setReviewedCount((prev) => prev + 1);
+      setFlipped(false);
+      setTypedAnswer("");
+      setAnswerMatch(null);
+    } catch (error) {
+      console.error("Error saving review:", error);
+      toast.error("Failed to save review");
+    } finally {
+      setGrading(false);
+    }
+  };
+
   const toggleStar = async () => {
-    if (!cards[currentCard]) return;
+    if (!activeCard) return;
+
+    const newStarredState = !activeCard.is_starred;
 
-    const newStarredState = !cards[currentCard].is_starred;
-    
     try {
-      await supabase
+      const { error } = await supabase
         .from("flashcards")
         .update({ is_starred: newStarredState })
-        .eq("id", cards[currentCard].id);
+        .eq("id", activeCard.id);
 
-      setCards(cards.map((card, idx) => 
-        idx === currentCard ? { ...card, is_starred: newStarredState } : card
-      ));
+      if (error) throw error;
+
+      const applyStar = (card: ReviewCard) =>
+        card.id === activeCard.id ? { ...card, is_starred: newStarredState } : card;
+      setQueue((prev) => prev.map(applyStar));
+      setCards((prev) => prev.map(applyStar));
     } catch (error) {
       console.error("Error updating flashcard:", error);
     }
   };
 
+  const gradeIfFlipped = (grade: ReviewGrade) => {
+    if (mode === "due" && flipped) handleGrade(grade);
+  };
+
+  useHotkeys({
+    Space: handleFlip,
+    "1": () => gradeIfFlipped("again"),
+    "2": () => gradeIfFlipped("hard"),
+    "3": () => gradeIfFlipped("good"),
+    "4": () => gradeIfFlipped("easy"),
+    ArrowLeft: () => {
+      if (mode === "browse") handlePrev();
+    },
+    ArrowRight: () => {
+      if (mode === "browse") handleNext();
+    },
+    s: toggleStar,
+    "?": () => setShortcutsOpen(true),
+  }, !loading && !shortcutsOpen);
+
+  const swipeHandlers = useSwipe({
+    onSwipeLeft: () => {
+      if (mode === "browse") handleNext();
+      else gradeIfFlipped("again");
+    },
+    onSwipeRight: () => {
+      if (mode === "browse") handlePrev();
+      else gradeIfFlipped("good");
+    },
+    onSwipeUp: () => {
+      if (mode === "due" && flipped) gradeIfFlipped("easy");
+      else handleFlip();
+    },
+  });
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-hero flex items-center justify-center">
@@ -80,131 +266,216 @@ const Flashcards = () => {
     );
   }
 
-  if (cards.length === 0) {
+  if (mode === "browse" && cards.length === 0) {
     return (
       <div className="min-h-screen bg-gradient-hero p-4 pb-24 flex items-center justify-center">
         <Card className="glass-strong p-12 text-center shadow-glass max-w-md">
-          <p className="text-sm text-muted-foreground">
-            No flashcards yet. Generate study materials to create flashcards!
+          <p className="text-sm text-muted-foreground mb-6">
+            {isSession ? "No flashcards match these filters." : "No flashcards in this deck yet."}
           </p>
+          <div className="flex justify-center gap-2">
+            <Button onClick={() => navigate("/flashcards")} variant="outline" className="rounded-full">
+              <ArrowLeft className="w-4 h-4 mr-2" /> All decks
+            </Button>
+            {isSession ? (
+              <Button onClick={() => navigate(`/flashcards/builder?${sessionQuery}`)} className="rounded-full">
+                <SlidersHorizontal className="w-4 h-4 mr-2" /> Edit filters
+              </Button>
+            ) : (
+              <Button onClick={() => navigate(`/flashcards/${deckId}/manage`)} className="rounded-full">
+                <ListChecks className="w-4 h-4 mr-2" /> Add cards
+              </Button>
+            )}
+          </div>
         </Card>
       </div>
     );
   }
 
+  const sessionTotal = reviewedCount + queue.length;
+  const progress = mode === "due"
+    ? (sessionTotal ? (reviewedCount / sessionTotal) * 100 : 100)
+    : ((currentCard + 1) / cards.length) * 100;
+
   return (
     <div className="min-h-screen liquid-bg p-4 pb-24">
-      <header className="pt-8 pb-6 text-center fade-in-up">
-        <h1 className="text-3xl font-bold mb-2 bg-gradient-neon bg-clip-text text-transparent">Flashcards</h1>
-        <p className="text-muted-foreground text-sm">
-          Card {currentCard + 1} of {cards.length}
-        </p>
-      </header>
-
-      <div className="max-w-md mx-auto space-y-6">
-        {/* Flashcard with Liquid Ripple */}
-        <div className="perspective-1000 fade-in-up" style={{ animationDelay: '0.1s' }}>
-          <Card
-            onClick={() => setFlipped(!flipped)}
-            className={cn(
-              "glass-strong p-8 min-h-[340px] shadow-float cursor-pointer transition-all duration-700 border-white/40 liquid-ripple",
-              flipped ? "scale-105" : "hover:scale-102"
-            )}
+      <header className="pt-8 pb-6 text-center fade-in-up relative">
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => navigate("/flashcards")}
+          className="absolute left-0 top-8 rounded-full"
+        >
+          <ArrowLeft className="w-4 h-4 mr-1" /> Decks
+        </Button>
+        {isSession ? (
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => navigate(`/flashcards/builder?${sessionQuery}`)}
+            className="absolute right-0 top-8 rounded-full"
           >
-            <div className="flex flex-col items-center justify-center h-full text-center space-y-6">
-              {!flipped ? (
-                <>
-                  <div className="relative">
-                    <div className="w-12 h-12 rounded-full bg-gradient-neon flex items-center justify-center shadow-neon">
-                      <span className="text-2xl font-bold text-primary-foreground">?</span>
-                    </div>
-                    <div className="absolute inset-0 rounded-full bg-gradient-neon opacity-30 blur-xl animate-pulse" />
-                  </div>
-                  <div className="space-y-3">
-                    <p className="text-xs uppercase tracking-widest text-muted-foreground font-semibold">
-                      Question
-                    </p>
-                    <p className="text-xl font-bold leading-relaxed">
-                      {cards[currentCard].question}
-                    </p>
-                  </div>
-                  <p className="text-xs text-muted-foreground bg-white/20 px-4 py-2 rounded-full">
-                    Tap to reveal answer
-                  </p>
-                </>
-              ) : (
-                <div className="space-y-6 animate-in fade-in-50 duration-500">
-                  <div className="relative">
-                    <div className="w-12 h-12 rounded-full bg-gradient-neon flex items-center justify-center shadow-neon">
-                      <span className="text-2xl font-bold text-primary-foreground">✓</span>
-                    </div>
-                    <div className="absolute inset-0 rounded-full bg-gradient-neon opacity-30 blur-xl animate-pulse" />
-                  </div>
-                  <div className="space-y-3">
-                    <p className="text-xs uppercase tracking-widest text-muted-foreground font-semibold">
-                      Answer
-                    </p>
-                    <p className="text-lg leading-relaxed">
-                      {cards[currentCard].answer}
-                    </p>
-                  </div>
-                </div>
-              )}
-            </div>
-          </Card>
-        </div>
-
-        {/* Controls with Glass Buttons - Vertical Stack for One-Handed Use */}
-        <div className="flex items-center justify-center gap-4 fade-in-up" style={{ animationDelay: '0.2s' }}>
-          {/* Left side - Previous button */}
+            <SlidersHorizontal className="w-4 h-4 mr-1" /> Filters
+          </Button>
+        ) : (
           <Button
-            onClick={handlePrev}
-            size="lg"
-            className="glass hover:shadow-glow transition-all duration-500 rounded-[20px] w-14 h-14 p-0 border-white/30 flex-shrink-0"
+            size="sm"
+            variant="ghost"
+            onClick={() => navigate(`/flashcards/${deckId}/manage`)}
+            className="absolute right-0 top-8 rounded-full"
           >
-            <ChevronLeft className="w-6 h-6" />
+            <ListChecks className="w-4 h-4 mr-1" /> Manage
           </Button>
-
-          {/* Center - Star button */}
+        )}
+        <h1 className="text-3xl font-bold mb-2 bg-gradient-neon bg-clip-text text-transparent px-20 truncate">{deckTitle}</h1>
+        {mode === "due" ? (
+          <div className="flex justify-center gap-3 text-sm">
+            <span className="text-primary font-semibold">{counts.due} due</span>
+            <span className="text-destructive font-semibold">{counts.learning} learning</span>
+            <span className="text-muted-foreground font-semibold">{counts.new} new</span>
+          </div>
+        ) : (
+          <p className="text-muted-foreground text-sm">
+            Browsing card {currentCard + 1} of {cards.length}{hasMore ? "+" : ""}
+          </p>
+        )}
+        <div className="flex justify-center gap-2 mt-4">
           <Button
-            onClick={toggleStar}
-            size="lg"
-            className={cn(
-              "glass transition-all duration-500 rounded-[20px] w-14 h-14 p-0 border-white/30 flex-shrink-0",
-              cards[currentCard]?.is_starred && "bg-gradient-neon text-primary-foreground shadow-neon"
-            )}
+            size="sm"
+            variant={mode === "due" ? "default" : "outline"}
+            onClick={() => {
+              setLoading(true);
+              loadQueue();
+            }}
+            className="rounded-full"
           >
-            <Star className={cn("w-6 h-6", cards[currentCard]?.is_starred && "fill-current")} />
+            Due
+          </Button>
+          <Button
+            size="sm"
+            variant={mode === "browse" ? "default" : "outline"}
+            onClick={loadBrowse}
+            className="rounded-full"
+          >
+            Browse
           </Button>
-
-          {/* Right side - Next button */}
           <Button
-            onClick={handleNext}
-            size="lg"
-            className="glass hover:shadow-glow transition-all duration-500 rounded-[20px] w-14 h-14 p-0 border-white/30 flex-shrink-0"
+            size="sm"
+            variant="ghost"
+            onClick={() => setShortcutsOpen(true)}
+            className="rounded-full"
+            title="Shortcuts"
           >
-            <ChevronRight className="w-6 h-6" />
+            <Keyboard className="w-4 h-4" />
           </Button>
         </div>
+        {mode === "due" && (
+          <label className="flex items-center justify-center gap-2 mt-3 text-xs text-muted-foreground">
+            <Switch checked={typeAnswers} onCheckedChange={toggleTypeAnswers} />
+            Type answers
+          </label>
+        )}
+      </header>
+
+      <div className="max-w-md mx-auto space-y-6">
+        {mode === "due" && !activeCard ? (
+          <Card className="glass-strong p-12 text-center shadow-glass fade-in-up border-white/40">
+            <CheckCircle2 className="w-12 h-12 mx-auto mb-4 text-primary" />
+            <h2 className="text-xl font-bold mb-2">All caught up!</h2>
+            <p className="text-sm text-muted-foreground mb-6">
+              You reviewed {reviewedCount} {reviewedCount === 1 ? "card" : "cards"}. Come back later for more.
+            </p>
+            <Button onClick={loadBrowse} variant="outline" className="rounded-full">
+              Browse all cards
+            </Button>
+          </Card>
+        ) : (
+          <>
+            <div {...swipeHandlers}>
+              <FlashcardFace
+                question={activeCard.question}
+                answer={activeCard.answer}
+                cardType={activeCard.card_type}
+                difficulty={activeCard.difficulty}
+                flipped={flipped}
+                onFlip={handleFlip}
+              />
+            </div>
+
+            {isTyping && (
+              <TypedAnswerPanel
+                value={typedAnswer}
+                onChange={setTypedAnswer}
+                onCheck={handleCheckAnswer}
+                result={answerMatch}
+              />
+            )}
+
+            {mode === "due" && flipped && (
+              <ReviewGradeButtons
+                card={activeCard}
+                disabled={grading}
+                suggested={answerMatch?.suggestedGrade}
+                onGrade={handleGrade}
+              />
+            )}
+
+            {/* Controls with Glass Buttons - Vertical Stack for One-Handed Use */}
+            <div className="flex items-center justify-center gap-4 fade-in-up" style={{ animationDelay: '0.2s' }}>
+              {mode === "browse" && (
+                <Button
+                  onClick={handlePrev}
+                  size="lg"
+                  className="glass hover:shadow-glow transition-all duration-500 rounded-[20px] w-14 h-14 p-0 border-white/30 flex-shrink-0"
+                >
+                  <ChevronLeft className="w-6 h-6" />
+                </Button>
+              )}
+
+              <Button
+                onClick={toggleStar}
+                size="lg"
+                className={cn(
+                  "glass transition-all duration-500 rounded-[20px] w-14 h-14 p-0 border-white/30 flex-shrink-0",
+                  activeCard.is_starred && "bg-gradient-neon text-primary-foreground shadow-neon"
+                )}
+              >
+                <Star className={cn("w-6 h-6", activeCard.is_starred && "fill-current")} />
+              </Button>
+
+              {mode === "browse" && (
+                <Button
+                  onClick={handleNext}
+                  size="lg"
+                  className="glass hover:shadow-glow transition-all duration-500 rounded-[20px] w-14 h-14 p-0 border-white/30 flex-shrink-0"
+                >
+                  <ChevronRight className="w-6 h-6" />
+                </Button>
+              )}
+            </div>
+          </>
+        )}
 
         {/* Glowing Progress Bar */}
         <div className="glass-strong rounded-[20px] p-5 shadow-glass fade-in-up border-white/40" style={{ animationDelay: '0.3s' }}>
           <div className="flex justify-between text-sm mb-3">
             <span className="text-muted-foreground font-medium">Progress</span>
             <span className="font-bold bg-gradient-neon bg-clip-text text-transparent">
-              {Math.round(((currentCard + 1) / cards.length) * 100)}%
+              {Math.round(progress)}%
             </span>
           </div>
           <div className="h-3 bg-white/20 rounded-full overflow-hidden backdrop-blur-sm">
             <div
               className="h-full bg-gradient-neon transition-all duration-700 shadow-neon relative"
-              style={{ width: `${((currentCard + 1) / cards.length) * 100}%` }}
+              style={{ width: `${progress}%` }}
             >
               <div className="absolute inset-0 bg-white/20 animate-pulse" />
             </div>
           </div>
         </div>
       </div>
+
+      <ShortcutOverlay open={shortcutsOpen} onOpenChange={setShortcutsOpen} />
     </div>
   );
 };
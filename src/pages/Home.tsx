@@ -1,7 +1,7 @@
 import { useState, memo, useCallback } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { BookOpen, Brain, MessageSquare, Sparkles, ClipboardCheck } from "lucide-react";
+import { BookOpen, Brain, MessageSquare, Sparkles, ClipboardCheck, Library } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import logo from "@/assets/logo.png";
@@ -102,6 +102,15 @@ const Home = memo(() => {
           <h3 className="font-semibold text-sm mb-1">AI Tutor</h3>
           <p className="text-[10px] sm:text-xs text-muted-foreground">Get Help</p>
         </Card>
+
+        <Card 
+          onClick={() => navigate("/library")}
+          className="col-span-2 glass p-6 sm:p-7 text-center cursor-pointer transition-all duration-300 hover:shadow-md hover:-translate-y-1 active:scale-95 border-border"
+        >
+          <Library className="w-8 h-8 sm:w-9 sm:h-9 text-primary mx-auto mb-3" />
+          <h3 className="font-semibold text-sm mb-1">Library</h3>
+          <p className="text-[10px] sm:text-xs text-muted-foreground">All Your Materials</p>
+        </Card>
       </div>
     </div>
   );
@@ -0,0 +1,122 @@
+import { useState, useEffect, useCallback, memo } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Library as LibraryIcon, Loader2, Plus } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { toast } from "sonner";
+import { sourceTypeLabel } from "@/lib/materials";
+
+type LibraryMaterial = {
+  id: string;
+  title: string;
+  source_type: string;
+  created_at: string;
+  notes: { count: number }[];
+  flashcards: { count: number }[];
+  quizzes: { count: number }[];
+};
+
+const countOf = (relation: { count: number }[]) => relation[0]?.count ?? 0;
+
+const plural = (count: number, one: string, many: string) => `${count} ${count === 1 ? one : many}`;
+
+const Library = memo(() => {
+  const navigate = useNavigate();
+  const [materials, setMaterials] = useState<LibraryMaterial[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+
+  const fetchMaterials = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from("materials")
+        .select("id, title, source_type, created_at, notes(count), flashcards(count), quizzes(count)")
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setMaterials(data || []);
+    } catch (error) {
+      console.error("Error fetching materials:", error);
+      toast.error("Failed to load your library");
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchMaterials();
+  }, [fetchMaterials]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-4 pb-24">
+      <header className="pt-8 pb-6 text-center">
+        <div className="max-w-md mx-auto">
+          <LibraryIcon className="w-12 h-12 mx-auto mb-4 text-primary" />
+          <h1 className="text-3xl font-bold mb-2">Library</h1>
+          <p className="text-muted-foreground text-sm">
+            Every material you've added and what was made from it
+          </p>
+          <Button size="sm" className="mt-4" onClick={() => navigate("/materials")}>
+            <Plus className="w-4 h-4 mr-1" /> Add material
+          </Button>
+        </div>
+      </header>
+
+      <div className="max-w-2xl mx-auto space-y-4">
+        {materials.length === 0 ? (
+          <Card className="glass p-8 text-center">
+            <LibraryIcon className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
+            <h3 className="text-lg font-semibold mb-2">Your library is empty</h3>
+            <p className="text-muted-foreground text-sm">
+              Generate from a topic or upload your own content to get started
+            </p>
+          </Card>
+        ) : (
+          materials.map((material) => (
+            <Card
+              key={material.id}
+              onClick={() => navigate(`/library/${material.id}`)}
+              className="glass cursor-pointer transition-all duration-300 hover:shadow-md hover:-translate-y-1"
+            >
+              <CardHeader className="space-y-2">
+                <div className="flex items-start justify-between gap-3">
+                  <CardTitle className="text-lg line-clamp-2">{material.title}</CardTitle>
+                  <Badge variant="outline" className="flex-shrink-0">
+                    {sourceTypeLabel(material.source_type)}
+                  </Badge>
+                </div>
+                <CardDescription>
+                  Added {new Date(material.created_at).toLocaleDateString()}
+                  {" · "}
+                  {plural(countOf(material.notes), "note", "notes")}
+                  {" · "}
+                  {plural(countOf(material.flashcards), "card", "cards")}
+                  {" · "}
+                  {plural(countOf(material.quizzes), "quiz", "quizzes")}
+                </CardDescription>
+              </CardHeader>
+            </Card>
+          ))
+        )}
+      </div>
+    </div>
+  );
+});
+
+Library.displayName = 'Library';
+
+export default Library;
@@ -0,0 +1,387 @@
+import { useState, useEffect, useCallback, memo } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ArrowLeft, BookOpen, ClipboardCheck, Edit2, ExternalLink, FileText, Loader2, Play, Save, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { toast } from "sonner";
+import type { Json } from "@/integrations/supabase/types";
+import { openMaterialFile } from "@/lib/materialFiles";
+import { deleteMaterial, sourceTypeLabel } from "@/lib/materials";
+import { GenerateMoreCard } from "@/components/materials/GenerateMoreCard";
+
+type Material = {
+  id: string;
+  title: string;
+  content: string;
+  summary: string | null;
+  source_type: string;
+  file_url: string | null;
+  created_at: string;
+};
+
+type MaterialNote = {
+  id: string;
+  title: string;
+  key_points: Json | null;
+};
+
+type MaterialCard = {
+  id: string;
+  question: string;
+  answer: string;
+  card_type: string;
+};
+
+type MaterialQuiz = {
+  id: string;
+  title: string;
+  questions: { count: number }[];
+};
+
+// The rest are a click away on the deck itself
+const CARD_PREVIEW_LIMIT = 5;
+
+const keyPointsOf = (note: MaterialNote) =>
+  Array.isArray(note.key_points) ? note.key_points.filter((point): point is string => typeof point === "string") : [];
+
+const MaterialDetail = memo(() => {
+  const { materialId } = useParams();
+  const navigate = useNavigate();
+  const [material, setMaterial] = useState<Material | null>(null);
+  const [notes, setNotes] = useState<MaterialNote[]>([]);
+  const [cards, setCards] = useState<MaterialCard[]>([]);
+  const [cardCount, setCardCount] = useState(0);
+  const [quizzes, setQuizzes] = useState<MaterialQuiz[]>([]);
+  const [title, setTitle] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [savingTitle, setSavingTitle] = useState(false);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+  const { user } = useAuth();
+
+  const fetchMaterial = useCallback(async () => {
+    if (!user || !materialId) return;
+
+    try {
+      const [materialResult, notesResult, cardsResult, quizzesResult] = await Promise.all([
+        supabase
+          .from("materials")
+          .select("id, title, content, summary, source_type, file_url, created_at")
+          .eq("id", materialId)
+          .eq("user_id", user.id)
+          .maybeSingle(),
+        supabase
+          .from("notes")
+          .select("id, title, key_points")
+          .eq("material_id", materialId)
+          .order("created_at", { ascending: true }),
+        supabase
+          .from("flashcards")
+          .select("id, question, answer, card_type", { count: "exact" })
+          .eq("material_id", materialId)
+          .order("created_at", { ascending: true })
+          .limit(CARD_PREVIEW_LIMIT),
+        supabase
+          .from("quizzes")
+          .select("id, title, questions(count)")
+          .eq("material_id", materialId)
+          .order("created_at", { ascending: true }),
+      ]);
+
+      if (materialResult.error) throw materialResult.error;
+      if (notesResult.error) throw notesResult.error;
+      if (cardsResult.error) throw cardsResult.error;
+      if (quizzesResult.error) throw quizzesResult.error;
+      if (!materialResult.data) {
+        toast.error("Material not found");
+        navigate("/library");
+        return;
+      }
+
+      setMaterial(materialResult.data);
+      setTitle(materialResult.data.title);
+      setNotes(notesResult.data || []);
+      setCards(cardsResult.data || []);
+      setCardCount(cardsResult.count ?? 0);
+      setQuizzes(quizzesResult.data || []);
+    } catch (error) {
+      console.error("Error fetching material:", error);
+      toast.error("Failed to load material");
+    } finally {
+      setLoading(false);
+    }
+  }, [user, materialId, navigate]);
+
+  useEffect(() => {
+    fetchMaterial();
+  }, [fetchMaterial]);
+
+  const handleSaveTitle = async () => {
+    const trimmed = title.trim();
+    if (!material || !trimmed || trimmed === material.title) return;
+
+    setSavingTitle(true);
+    try {
+      const { error } = await supabase.from("materials").update({ title: trimmed }).eq("id", material.id);
+
+      if (error) throw error;
+      setMaterial({ ...material, title: trimmed });
+      setTitle(trimmed);
+      toast.success("Material renamed");
+    } catch (error) {
+      console.error("Error renaming material:", error);
+      toast.error("Failed to rename material");
+    } finally {
+      setSavingTitle(false);
+    }
+  };
+
+  const handleOpenOriginal = async (fileUrl: string) => {
+    try {
+      await openMaterialFile(fileUrl);
+    } catch (error) {
+      console.error("Error opening original file:", error);
+      toast.error("Failed to open the original file");
+    }
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!material) return;
+
+    setDeleting(true);
+    try {
+      await deleteMaterial(material);
+      toast.success("Material deleted");
+      navigate("/library");
+    } catch (error) {
+      console.error("Error deleting material:", error);
+      toast.error("Failed to delete material");
+      setDeleting(false);
+    }
+  };
+
+  if (loading || !material) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-4 pb-24">
+      <div className="max-w-2xl mx-auto pt-8 space-y-4">
+        <div className="flex items-center gap-3 mb-2">
+          <Button size="sm" variant="ghost" onClick={() => navigate("/library")}>
+            <ArrowLeft className="w-4 h-4 mr-1" /> Library
+          </Button>
+          <h2 className="text-xl font-bold">Material</h2>
+        </div>
+
+        <Card className="glass p-6 space-y-4">
+          <div>
+            <label htmlFor="material-title" className="text-sm font-medium">Title</label>
+            <div className="flex gap-2 mt-2">
+              <Input
+                id="material-title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleSaveTitle()}
+              />
+              <Button
+                onClick={handleSaveTitle}
+                disabled={savingTitle || !title.trim() || title.trim() === material.title}
+              >
+                {savingTitle ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Save className="w-4 h-4 mr-2" />}
+                Save
+              </Button>
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge variant="outline">{sourceTypeLabel(material.source_type)}</Badge>
+            <span className="text-xs text-muted-foreground">
+              Added {new Date(material.created_at).toLocaleDateString()}
+            </span>
+            <div className="ml-auto flex gap-2">
+              {material.file_url && (
+                <Button size="sm" variant="outline" onClick={() => handleOpenOriginal(material.file_url)}>
+                  <ExternalLink className="w-4 h-4 mr-1" /> Original file
+                </Button>
+              )}
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setDeleteDialogOpen(true)}
+                className="hover:bg-destructive/10 text-destructive hover:text-destructive"
+              >
+                <Trash2 className="w-4 h-4 mr-1" /> Delete
+              </Button>
+            </div>
+          </div>
+        </Card>
+
+        {user && (
+          <GenerateMoreCard
+            material={material}
+            userId={user.id}
+            onSummaryChange={(summary) => setMaterial({ ...material, summary })}
+            onContentAdded={fetchMaterial}
+          />
+        )}
+
+        {material.summary && (
+          <Card className="glass p-6">
+            <h3 className="font-semibold mb-3">Summary</h3>
+            <p className="text-sm leading-relaxed whitespace-pre-wrap">{material.summary}</p>
+          </Card>
+        )}
+
+        <Card className="glass p-6">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="font-semibold flex items-center gap-2">
+              <FileText className="w-4 h-4 text-primary" /> Notes
+            </h3>
+            {notes.length > 0 && (
+              <Button size="sm" variant="ghost" onClick={() => navigate("/notes")}>
+                Open notes
+              </Button>
+            )}
+          </div>
+          {notes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No notes from this material.</p>
+          ) : (
+            <div className="space-y-4">
+              {notes.map((note) => (
+                <div key={note.id}>
+                  <p className="text-sm font-medium mb-1">{note.title}</p>
+                  <ul className="space-y-1">
+                    {keyPointsOf(note).map((point, index) => (
+                      <li key={index} className="text-sm text-muted-foreground flex items-start gap-2">
+                        <span className="text-primary">•</span>
+                        <span>{point}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+
+        <Card className="glass p-6">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="font-semibold flex items-center gap-2">
+              <BookOpen className="w-4 h-4 text-primary" /> Flashcards
+              <span className="text-sm font-normal text-muted-foreground">({cardCount})</span>
+            </h3>
+            {cardCount > 0 && (
+              <div className="flex gap-1">
+                <Button size="sm" variant="ghost" onClick={() => navigate(`/flashcards/${material.id}/manage`)}>
+                  <Edit2 className="w-4 h-4 mr-1" /> Manage
+                </Button>
+                <Button size="sm" onClick={() => navigate(`/flashcards/${material.id}`)}>
+                  <Play className="w-4 h-4 mr-1" /> Study
+                </Button>
+              </div>
+            )}
+          </div>
+          {cardCount === 0 ? (
+            <p className="text-sm text-muted-foreground">No flashcards from this material.</p>
+          ) : (
+            <div className="space-y-3">
+              {cards.map((card) => (
+                <div key={card.id} className="border-b border-border last:border-0 pb-3 last:pb-0">
+                  <p className="text-sm font-medium">{card.question}</p>
+                  <p className="text-sm text-muted-foreground line-clamp-2">{card.answer}</p>
+                </div>
+              ))}
+              {cardCount > CARD_PREVIEW_LIMIT && (
+                <p className="text-xs text-muted-foreground">
+                  and {cardCount - CARD_PREVIEW_LIMIT} more
+                </p>
+              )}
+            </div>
+          )}
+        </Card>
+
+        <Card className="glass p-6">
+          <h3 className="font-semibold flex items-center gap-2 mb-3">
+            <ClipboardCheck className="w-4 h-4 text-primary" /> Quizzes
+          </h3>
+          {quizzes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No quizzes from this material.</p>
+          ) : (
+            <div className="space-y-2">
+              {quizzes.map((quiz) => {
+                const questionCount = quiz.questions[0]?.count ?? 0;
+                return (
+                  <div key={quiz.id} className="flex items-center gap-2">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">{quiz.title}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {questionCount} {questionCount === 1 ? "question" : "questions"}
+                      </p>
+                    </div>
+                    <Button size="sm" variant="ghost" onClick={() => navigate(`/quizzes/${quiz.id}/edit`)} title="Edit">
+                      <Edit2 className="w-4 h-4" />
+                    </Button>
+                    <Button size="sm" onClick={() => navigate("/quizzes", { state: { startQuizId: quiz.id } })}>
+                      <Play className="w-4 h-4 mr-1" /> Take
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </Card>
+
+        <Card className="glass p-6">
+          <h3 className="font-semibold mb-3">Original content</h3>
+          <p className="text-sm leading-relaxed whitespace-pre-wrap max-h-96 overflow-y-auto">{material.content}</p>
+        </Card>
+      </div>
+
+      <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Are you sure you want to delete this material?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This action cannot be undone. Its {notes.length} {notes.length === 1 ? "note" : "notes"},{" "}
+              {cardCount} {cardCount === 1 ? "flashcard" : "flashcards"} and {quizzes.length}{" "}
+              {quizzes.length === 1 ? "quiz" : "quizzes"}, including their review and attempt history, will be
+              deleted as well.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDeleteConfirm}
+              disabled={deleting}
+              className="bg-destructive hover:bg-destructive/90"
+            >
+              {deleting ? <Loader2 className="w-4 h-4 animate-spin" /> : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+});
+
+MaterialDetail.displayName = 'MaterialDetail';
+
+export default MaterialDetail;
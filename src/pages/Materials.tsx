@@ -1,104 +1,40 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Upload, FileText, Loader2, Sparkles, CheckCircle2 } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { Upload, FileText, Loader2, Sparkles, CheckCircle2, X, Library } from "lucide-react";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { useNavigate } from "react-router-dom";
+import {
+  MATERIAL_FILE_ACCEPT,
+  extractMaterialText,
+  materialTitleFromFile,
+  removeMaterialFile,
+  uploadMaterialFile,
+} from "@/lib/materialFiles";
+import { processMaterialChunks, splitMaterial } from "@/lib/materialChunks";
+import { saveGeneratedMaterial } from "@/lib/materialSave";
 
 const Materials = () => {
   const [text, setText] = useState("");
   const [topic, setTopic] = useState("");
   const [loading, setLoading] = useState(false);
   const [progress, setProgress] = useState<string[]>([]);
+  const [includeCloze, setIncludeCloze] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [extracting, setExtracting] = useState(false);
+  const [chunkProgress, setChunkProgress] = useState<{ completed: number; total: number } | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
   const { user } = useAuth();
   const navigate = useNavigate();
 
-  const saveMaterialAndContent = async (
-    materialTitle: string,
-    materialContent: string,
-    sourceType: string,
-    generatedData: any
-  ) => {
-    if (!user) return;
-
-    try {
-      // Save material
-      const { data: material, error: materialError } = await supabase
-        .from("materials")
-        .insert({
-          user_id: user.id,
-          title: materialTitle,
-          content: materialContent,
-          source_type: sourceType,
-          summary: generatedData.summary,
-        })
-        .select()
-        .single();
-
-      if (materialError) throw materialError;
-
-      // Save notes
-      if (generatedData.key_points || generatedData.examples) {
-        await supabase.from("notes").insert({
-          user_id: user.id,
-          material_id: material.id,
-          title: `${materialTitle} - Notes`,
-          content: generatedData.summary,
-          key_points: generatedData.key_points,
-          examples: generatedData.examples,
-        });
-      }
-
-      // Save flashcards
-      if (generatedData.flashcards && Array.isArray(generatedData.flashcards)) {
-        const flashcardsData = generatedData.flashcards.map((card: any) => ({
-          user_id: user.id,
-          material_id: material.id,
-          question: card.question,
-          answer: card.answer,
-          difficulty: card.difficulty || "medium",
-        }));
-        await supabase.from("flashcards").insert(flashcardsData);
-      }
-
-      // Save quiz
-      if (generatedData.quiz_questions && Array.isArray(generatedData.quiz_questions)) {
-        const { data: quiz } = await supabase
-          .from("quizzes")
-          .insert({
-            user_id: user.id,
-            material_id: material.id,
-            title: `${materialTitle} - Quiz`,
-          })
-          .select()
-          .single();
-
-        if (quiz) {
-          const questionsData = generatedData.quiz_questions.map((q: any) => ({
-            quiz_id: quiz.id,
-            question_text: q.question,
-            question_type: q.type,
-            options: q.options || null,
-            correct_answer: q.correct_answer,
-            explanation: q.explanation || null,
-          }));
-          await supabase.from("questions").insert(questionsData);
-        }
-      }
-
-      return true;
-    } catch (error) {
-      console.error("Error saving to database:", error);
-      throw error;
-    }
-  };
-
   const handleTopicGenerate = async () => {
     if (!topic.trim()) {
       toast.error("Please enter a topic");
@@ -112,14 +48,19 @@ const Materials = () => {
       setProgress((prev) => [...prev, "Generating content from AI..."]);
 
       const { data, error } = await supabase.functions.invoke("generate-from-topic", {
-        body: { topic: topic.trim() },
+        body: { topic: topic.trim(), include_cloze: includeCloze },
       });
 
       if (error) throw error;
 
       setProgress((prev) => [...prev, "Content generated! Saving to your workspace..."]);
 
-      await saveMaterialAndContent(data.title || topic, topic, "ai_generated", data);
+      await saveGeneratedMaterial({
+        title: data.title || topic,
+        content: topic,
+        sourceType: "ai_generated",
+        generated: data,
+      });
 
       setProgress((prev) => [...prev, "✓ All done! Your materials are ready."]);
       
@@ -136,47 +77,96 @@ const Materials = () => {
     }
   };
 
+  const handleFileSelect = async (selected: File | undefined) => {
+    if (!selected) return;
+
+    setExtracting(true);
+    try {
+      const extracted = await extractMaterialText(selected);
+      setFile(selected);
+      setText(extracted);
+    } catch (error) {
+      console.error("Error reading file:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to read file");
+    } finally {
+      setExtracting(false);
+      // Allow picking the same file again after clearing it
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  const clearFile = () => {
+    setFile(null);
+    setText("");
+  };
+
   const handleTextSubmit = async () => {
     if (!text.trim()) {
       toast.error("Please enter some text to analyze");
       return;
     }
+    if (!user) return;
 
     setLoading(true);
     setProgress([]);
 
+    const title = file ? materialTitleFromFile(file) : text.trim().substring(0, 100) + "...";
+    let fileUrl: string | null = null;
+
     try {
-      setProgress((prev) => [...prev, "Analyzing your material..."]);
+      if (file) {
+        setProgress((prev) => [...prev, `Uploading ${file.name}...`]);
+        fileUrl = await uploadMaterialFile(user.id, file);
+      }
 
-      const { data, error } = await supabase.functions.invoke("process-material", {
-        body: { 
-          content: text.trim(),
-          title: text.trim().substring(0, 100) + "..."
-        },
+      // Long materials are analyzed section by section so nothing gets truncated
+      const chunks = splitMaterial(text.trim());
+      setChunkProgress({ completed: 0, total: chunks.length });
+      setProgress((prev) => [
+        ...prev,
+        chunks.length > 1 ? `Analyzing your material in ${chunks.length} sections...` : "Analyzing your material...",
+      ]);
+
+      const data = await processMaterialChunks(chunks, title, includeCloze, ({ completed, total, chunk }) => {
+        setChunkProgress({ completed, total });
+        if (total > 1) {
+          setProgress((prev) => [
+            ...prev,
+            `Section ${completed} of ${total} done${chunk.heading ? `: ${chunk.heading}` : ""}`,
+          ]);
+        }
       });
 
-      if (error) throw error;
-
       setProgress((prev) => [...prev, "Creating study materials..."]);
 
-      await saveMaterialAndContent(
-        text.substring(0, 100) + "...",
-        text,
-        "paste",
-        data
-      );
+      await saveGeneratedMaterial({
+        title,
+        content: text,
+        sourceType: file ? "upload" : "paste",
+        fileUrl,
+        generated: data,
+      });
 
       setProgress((prev) => [...prev, "✓ All done! Your materials are ready."]);
       
       setTimeout(() => {
         toast.success("Material processed successfully!");
         setText("");
+        setFile(null);
+        setChunkProgress(null);
         navigate("/notes");
       }, 1500);
     } catch (error: any) {
       console.error("Error processing material:", error);
       toast.error(error.message || "Failed to process material");
       setProgress([]);
+      setChunkProgress(null);
+      // Don't keep a stored file that no material points to
+      if (fileUrl) {
+        removeMaterialFile(fileUrl).catch((removeError) =>
+          console.error("Error removing uploaded file:", removeError)
+        );
+      }
     } finally {
       setLoading(false);
     }
@@ -189,6 +179,9 @@ const Materials = () => {
         <p className="text-muted-foreground text-sm">
           Generate from a topic or upload your own content
         </p>
+        <Button variant="link" size="sm" onClick={() => navigate("/library")} className="mt-1">
+          <Library className="w-4 h-4 mr-1" /> Your library
+        </Button>
       </header>
 
       <div className="max-w-md mx-auto space-y-4">
@@ -198,6 +191,11 @@ const Materials = () => {
             <TabsTrigger value="upload" className="rounded-xl">Upload</TabsTrigger>
           </TabsList>
 
+          <label className="flex items-center justify-center gap-2 mt-4 text-sm text-muted-foreground">
+            <Switch checked={includeCloze} onCheckedChange={setIncludeCloze} disabled={loading} />
+            Also create cloze (fill-in-the-blank) cards
+          </label>
+
           <TabsContent value="topic" className="space-y-4">
             <Card className="glass-strong p-6 shadow-glass fade-in-up mt-4">
               <div className="space-y-4">
@@ -259,18 +257,69 @@ const Materials = () => {
             <Card className="glass-strong p-6 shadow-glass fade-in-up mt-4">
               <div className="space-y-4">
                 <div>
-                  <label className="text-sm font-medium mb-2 block">Paste Text</label>
+                  <input
+                    ref={fileInput}
+                    type="file"
+                    accept={MATERIAL_FILE_ACCEPT}
+                    className="hidden"
+                    onChange={(e) => handleFileSelect(e.target.files?.[0])}
+                  />
+                  {file ? (
+                    <div className="glass rounded-2xl p-3 flex items-center gap-3">
+                      <FileText className="w-5 h-5 text-primary flex-shrink-0" />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium truncate">{file.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {text.length.toLocaleString()} characters extracted
+                        </p>
+                      </div>
+                      <Button size="sm" variant="ghost" onClick={clearFile} disabled={loading} title="Remove file">
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <Button
+                      variant="outline"
+                      onClick={() => fileInput.current?.click()}
+                      disabled={loading || extracting}
+                      className="w-full glass border-dashed border-primary/30 rounded-2xl py-6"
+                    >
+                      {extracting ? (
+                        <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                      ) : (
+                        <Upload className="w-5 h-5 mr-2" />
+                      )}
+                      {extracting ? "Reading file..." : "Choose a PDF, DOCX, TXT or Markdown file"}
+                    </Button>
+                  )}
+                </div>
+
+                <div>
+                  <label className="text-sm font-medium mb-2 block">
+                    {file ? "Extracted Text" : "Or Paste Text"}
+                  </label>
+                  {file && (
+                    <p className="text-xs text-muted-foreground mb-2">
+                      Check the text below and fix anything that didn't come through cleanly before processing.
+                    </p>
+                  )}
                   <Textarea
                     placeholder="Paste your study material here..."
                     value={text}
                     onChange={(e) => setText(e.target.value)}
                     className="min-h-[250px] glass border-primary/20 rounded-2xl resize-none"
-                    disabled={loading}
+                    disabled={loading || extracting}
                   />
                 </div>
 
                 {progress.length > 0 && (
                   <Card className="glass p-4">
+                    {chunkProgress && chunkProgress.total > 1 && (
+                      <Progress
+                        value={(chunkProgress.completed / chunkProgress.total) * 100}
+                        className="h-2 mb-3"
+                      />
+                    )}
                     <div className="space-y-2">
                       {progress.map((step, idx) => (
                         <div key={idx} className="flex items-center gap-2 text-sm">
@@ -0,0 +1,268 @@
+import { useState, useEffect, useCallback, useMemo, memo } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ArrowLeft, GraduationCap, Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { toast } from "sonner";
+import type { QuestionType } from "@/lib/quizGrading";
+import { QUESTION_TYPES } from "@/lib/quizEditor";
+import {
+  DEFAULT_EXAM_CONFIG,
+  ExamConfig,
+  MAX_EXAM_QUESTIONS,
+  MIN_EXAM_QUESTIONS,
+  PoolQuestion,
+  buildMockExam,
+  fetchQuestionPool,
+  matchingQuestions,
+} from "@/lib/mockExam";
+
+type Material = {
+  id: string;
+  title: string;
+};
+
+const MockExamBuilder = memo(() => {
+  const navigate = useNavigate();
+  const [materials, setMaterials] = useState<Material[]>([]);
+  const [config, setConfig] = useState<ExamConfig>(DEFAULT_EXAM_CONFIG);
+  const [pool, setPool] = useState<PoolQuestion[] | null>([]);
+  const [poolFailed, setPoolFailed] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [building, setBuilding] = useState(false);
+  const { user } = useAuth();
+
+  const fetchMaterials = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from("materials")
+        .select("id, title")
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setMaterials(data || []);
+    } catch (error) {
+      console.error("Error fetching materials:", error);
+      toast.error("Failed to load your materials");
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchMaterials();
+  }, [fetchMaterials]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+    setPool(null);
+    setPoolFailed(false);
+    fetchQuestionPool(user.id, config.materialIds)
+      .then((questions) => {
+        if (!cancelled) setPool(questions);
+      })
+      .catch((error) => {
+        console.error("Error counting questions:", error);
+        if (cancelled) return;
+        setPoolFailed(true);
+        toast.error("Failed to count matching questions");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, config.materialIds]);
+
+  const available = useMemo(() => (pool ? matchingQuestions(pool, config.types).length : null), [pool, config.types]);
+
+  const updateConfig = (changes: Partial<ExamConfig>) => setConfig((prev) => ({ ...prev, ...changes }));
+
+  const toggleMaterial = (materialId: string) => {
+    updateConfig({
+      materialIds: config.materialIds.includes(materialId)
+        ? config.materialIds.filter((value) => value !== materialId)
+        : [...config.materialIds, materialId],
+    });
+  };
+
+  const toggleType = (type: QuestionType) => {
+    updateConfig({
+      types: config.types.includes(type) ? config.types.filter((value) => value !== type) : [...config.types, type],
+    });
+  };
+
+  const validCount =
+    Number.isInteger(config.questionCount) &&
+    config.questionCount >= MIN_EXAM_QUESTIONS &&
+    config.questionCount <= MAX_EXAM_QUESTIONS;
+  const canBuild =
+    config.materialIds.length > 0 &&
+    config.types.length > 0 &&
+    validCount &&
+    config.timeLimitMinutes >= 0 &&
+    (config.topUp || !!available);
+
+  const handleBuild = async () => {
+    if (!user) return;
+
+    setBuilding(true);
+    try {
+      const { quiz, sampled, generated } = await buildMockExam(user.id, config);
+      const total = sampled + generated;
+      if (total < config.questionCount) {
+        toast.info(`Only ${total} questions were available for this exam`);
+      } else {
+        toast.success(generated > 0 ? `Exam ready with ${generated} new questions` : "Exam ready!");
+      }
+      navigate("/quizzes", { state: { startQuizId: quiz.id } });
+    } catch (error) {
+      console.error("Error building mock exam:", error);
+      toast.error("Failed to build the exam");
+    } finally {
+      setBuilding(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const shortfall = available === null ? 0 : Math.max(config.questionCount - available, 0);
+
+  return (
+    <div className="min-h-screen bg-background p-4 pb-24">
+      <div className="max-w-2xl mx-auto pt-8 space-y-4">
+        <div className="flex items-center gap-3 mb-2">
+          <Button size="sm" variant="ghost" onClick={() => navigate("/quizzes")}>
+            <ArrowLeft className="w-4 h-4 mr-1" /> Quizzes
+          </Button>
+          <h2 className="text-xl font-bold">Mock exam</h2>
+        </div>
+
+        <Card className="glass p-6">
+          <p className="text-sm font-medium mb-1">Materials</p>
+          <p className="text-xs text-muted-foreground mb-3">
+            {config.materialIds.length === 0
+              ? "Choose the topics the exam should cover"
+              : `${config.materialIds.length} selected`}
+          </p>
+          {materials.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Add study materials first to build an exam from them.</p>
+          ) : (
+            <div className="space-y-2 max-h-60 overflow-y-auto">
+              {materials.map((material) => (
+                <label key={material.id} className="flex items-center gap-3 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={config.materialIds.includes(material.id)}
+                    onCheckedChange={() => toggleMaterial(material.id)}
+                  />
+                  <span className="truncate">{material.title}</span>
+                </label>
+              ))}
+            </div>
+          )}
+        </Card>
+
+        <Card className="glass p-6 space-y-5">
+          <div>
+            <Label htmlFor="exam-title">Title</Label>
+            <Input
+              id="exam-title"
+              value={config.title}
+              onChange={(e) => updateConfig({ title: e.target.value })}
+              className="mt-2"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="exam-count">Questions</Label>
+              <Input
+                id="exam-count"
+                type="number"
+                min={MIN_EXAM_QUESTIONS}
+                max={MAX_EXAM_QUESTIONS}
+                value={config.questionCount}
+                onChange={(e) => updateConfig({ questionCount: Number(e.target.value) })}
+                className="mt-2"
+              />
+            </div>
+            <div>
+              <Label htmlFor="exam-minutes">Time limit (minutes)</Label>
+              <Input
+                id="exam-minutes"
+                type="number"
+                min={0}
+                value={config.timeLimitMinutes}
+                onChange={(e) => updateConfig({ timeLimitMinutes: Number(e.target.value) })}
+                className="mt-2"
+              />
+              <p className="text-xs text-muted-foreground mt-1">0 for no limit</p>
+            </div>
+          </div>
+
+          <div>
+            <p className="text-sm font-medium mb-2">Question types</p>
+            <div className="flex flex-wrap gap-2">
+              {QUESTION_TYPES.map((option) => (
+                <Button
+                  key={option.value}
+                  size="sm"
+                  variant={config.types.includes(option.value) ? "default" : "outline"}
+                  onClick={() => toggleType(option.value)}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <label className="flex items-center justify-between gap-3 text-sm font-medium">
+            <span>
+              Top up with new questions
+              <span className="block text-xs text-muted-foreground font-normal">
+                Generate questions from the materials when there aren't enough
+              </span>
+            </span>
+            <Switch checked={config.topUp} onCheckedChange={(checked) => updateConfig({ topUp: checked })} />
+          </label>
+        </Card>
+
+        <p className="text-sm text-muted-foreground text-center">
+          {config.materialIds.length === 0
+            ? "No materials selected"
+            : poolFailed
+              ? "Couldn't count matching questions. Change the selection to try again."
+              : available === null
+                ? "Counting questions…"
+                : `${available} matching ${available === 1 ? "question" : "questions"} available` +
+                  (shortfall > 0 ? (config.topUp ? `, ${shortfall} will be generated` : `, the exam will have ${available}`) : "")}
+        </p>
+
+        <Button onClick={handleBuild} disabled={!canBuild || building || available === null} className="w-full">
+          {building ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <GraduationCap className="w-4 h-4 mr-2" />}
+          {building ? "Building exam..." : "Build exam"}
+        </Button>
+      </div>
+    </div>
+  );
+});
+
+MockExamBuilder.displayName = 'MockExamBuilder';
+
+export default MockExamBuilder;
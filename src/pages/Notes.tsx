@@ -19,17 +19,23 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { FileText, Loader2, Edit2, Save, X, Maximize2, Trash2 } from "lucide-react";
+import { FileText, Loader2, Edit2, Save, X, Maximize2, Trash2, Layers, ExternalLink } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { toast } from "sonner";
+import { generateClozeCards } from "@/lib/cloze";
+import { duplicateKey } from "@/lib/flashcardTransfer";
+import { fetchAllPages } from "@/lib/supabasePaging";
+import { openMaterialFile } from "@/lib/materialFiles";
 
 type Note = {
   id: string;
   title: string;
   content: string;
   key_points: any;
+  material_id: string | null;
   created_at: string;
+  materials: { file_url: string | null } | null;
 };
 
 const Notes = memo(() => {
@@ -44,6 +50,7 @@ const Notes = memo(() => {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [noteToDelete, setNoteToDelete] = useState<string | null>(null);
   const [deleting, setDeleting] = useState(false);
+  const [generatingId, setGeneratingId] = useState<string | null>(null);
   const { user } = useAuth();
 
   const fetchNotes = useCallback(async () => {
@@ -52,7 +59,7 @@ const Notes = memo(() => {
     try {
       const { data, error } = await supabase
         .from("notes")
-        .select("*")
+        .select("*, materials(file_url)")
         .eq("user_id", user.id)
         .order("created_at", { ascending: false });
 
@@ -149,6 +156,65 @@ const Notes = memo(() => {
     }
   }, [noteToDelete, notes]);
 
+  const handleGenerateCloze = useCallback(async (note: Note) => {
+    if (!user) return;
+
+    const clozeCards = generateClozeCards(note.key_points);
+    if (clozeCards.length === 0) {
+      toast.error("This note has no key points to turn into cloze cards");
+      return;
+    }
+
+    setGeneratingId(note.id);
+    try {
+      // Cards already made from these key points aren't added a second time
+      const existing = await fetchAllPages((from, to) => {
+        const query = supabase
+          .from("flashcards")
+          .select("question, card_type")
+          .eq("user_id", user.id)
+          .eq("card_type", "cloze");
+        return (note.material_id ? query.eq("material_id", note.material_id) : query.is("material_id", null))
+          .order("id", { ascending: true })
+          .range(from, to);
+      });
+      const seen = new Set(existing.map(duplicateKey));
+      const newCards = clozeCards.filter((card) => !seen.has(duplicateKey({ ...card, card_type: "cloze" })));
+      if (newCards.length === 0) {
+        toast.info("Cloze cards for these key points already exist");
+        return;
+      }
+
+      const { error } = await supabase.from("flashcards").insert(
+        newCards.map((card) => ({
+          user_id: user.id,
+          material_id: note.material_id,
+          question: card.question,
+          answer: card.answer,
+          card_type: "cloze",
+          difficulty: "medium",
+        }))
+      );
+
+      if (error) throw error;
+      toast.success(`Created ${newCards.length} cloze ${newCards.length === 1 ? "card" : "cards"}!`);
+    } catch (error) {
+      console.error("Error creating cloze cards:", error);
+      toast.error("Failed to create cloze cards");
+    } finally {
+      setGeneratingId(null);
+    }
+  }, [user]);
+
+  const handleOpenOriginal = useCallback(async (fileUrl: string) => {
+    try {
+      await openMaterialFile(fileUrl);
+    } catch (error) {
+      console.error("Error opening original file:", error);
+      toast.error("Failed to open the original file");
+    }
+  }, []);
+
   const formatDate = useCallback((dateString: string) => {
     const date = new Date(dateString);
     const now = new Date();
@@ -293,6 +359,25 @@ const Notes = memo(() => {
                     >
                       <Edit2 className="w-4 h-4 mr-1" /> Edit
                     </Button>
+                    {note.key_points && note.key_points.length > 0 && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleGenerateCloze(note);
+                        }}
+                        disabled={generatingId === note.id}
+                        className="hover:bg-primary/10"
+                        title="Create cloze flashcards from key points"
+                      >
+                        {generatingId === note.id ? (
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                        ) : (
+                          <><Layers className="w-4 h-4 mr-1" /> Cloze</>
+                        )}
+                      </Button>
+                    )}
                     <Button
                       size="sm"
                       variant="ghost"
@@ -339,10 +424,19 @@ const Notes = memo(() => {
                   </div>
                 )}
                 
-                <div className="pt-4 border-t">
+                <div className="pt-4 border-t flex items-center justify-between gap-2">
                   <p className="text-xs text-muted-foreground">
                     Created: {formatDate(selectedNote.created_at)}
                   </p>
+                  {selectedNote.materials?.file_url && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleOpenOriginal(selectedNote.materials.file_url)}
+                    >
+                      <ExternalLink className="w-4 h-4 mr-1" /> Original file
+                    </Button>
+                  )}
                 </div>
               </div>
             </>
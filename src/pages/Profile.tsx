@@ -1,11 +1,14 @@
 import { useEffect, useState } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { User, Award, TrendingUp, Settings, LogOut, Loader2, Check, Moon, Sun } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { User, Award, TrendingUp, Settings, LogOut, Loader2, Check, Moon, Sun, BookOpen } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { useTheme } from "@/contexts/ThemeContext";
 import { supabase } from "@/integrations/supabase/client";
 import { cn } from "@/lib/utils";
+import { DEFAULT_NEW_CARDS_PER_DAY, fetchNewCardsPerDay } from "@/lib/reviewQueue";
+import { toast } from "sonner";
 
 type Stats = {
   flashcardsCount: number;
@@ -79,6 +82,8 @@ const Profile = () => {
   const [stats, setStats] = useState<Stats>({ flashcardsCount: 0, notesCount: 0, materialsCount: 0 });
   const [loading, setLoading] = useState(true);
   const [showThemeSettings, setShowThemeSettings] = useState(false);
+  const [newCardsPerDay, setNewCardsPerDay] = useState(String(DEFAULT_NEW_CARDS_PER_DAY));
+  const [savingStudySettings, setSavingStudySettings] = useState(false);
 
   useEffect(() => {
     fetchStats();
@@ -92,16 +97,48 @@ const Profile = () => {
     await setDarkMode(!isDarkMode);
   };
 
+  const handleSaveStudySettings = async () => {
+    if (!user) return;
+
+    const limit = parseInt(newCardsPerDay, 10);
+    if (isNaN(limit) || limit < 0) {
+      toast.error("New cards per day must be 0 or more");
+      return;
+    }
+
+    setSavingStudySettings(true);
+    try {
+      const { error } = await supabase
+        .from("user_preferences")
+        .upsert({
+          user_id: user.id,
+          new_cards_per_day: limit,
+          updated_at: new Date().toISOString()
+        }, { onConflict: "user_id" });
+
+      if (error) throw error;
+      toast.success("Study settings saved");
+    } catch (error) {
+      console.error("Error saving study settings:", error);
+      toast.error("Failed to save study settings");
+    } finally {
+      setSavingStudySettings(false);
+    }
+  };
+
   const fetchStats = async () => {
     if (!user) return;
     
     try {
-      const [flashcards, notes, materials] = await Promise.all([
+      const [flashcards, notes, materials, cardsPerDay] = await Promise.all([
         supabase.from("flashcards").select("id", { count: "exact", head: true }).eq("user_id", user.id),
         supabase.from("notes").select("id", { count: "exact", head: true }).eq("user_id", user.id),
         supabase.from("materials").select("id", { count: "exact", head: true }).eq("user_id", user.id),
+        fetchNewCardsPerDay(user.id),
       ]);
 
+      setNewCardsPerDay(String(cardsPerDay));
+
       setStats({
         flashcardsCount: flashcards.count || 0,
         notesCount: notes.count || 0,
@@ -223,6 +260,37 @@ const Profile = () => {
             </div>
           )}
         </Card>
+
+        {/* Study Settings Card */}
+        <Card className="glass-strong p-6 shadow-float fade-in-up border-white/40" style={{ animationDelay: '0.2s' }}>
+          <h2 className="font-bold text-lg flex items-center gap-2 mb-4">
+            <BookOpen className="w-5 h-5" />
+            Study Settings
+          </h2>
+          <div className="flex items-end gap-3">
+            <div className="flex-1">
+              <label htmlFor="new-cards-per-day" className="text-sm font-medium mb-2 block">
+                New flashcards per day
+              </label>
+              <Input
+                id="new-cards-per-day"
+                type="number"
+                min={0}
+                value={newCardsPerDay}
+                onChange={(e) => setNewCardsPerDay(e.target.value)}
+                className="glass border-white/30 rounded-[16px]"
+              />
+            </div>
+            <Button
+              onClick={handleSaveStudySettings}
+              disabled={savingStudySettings}
+              className="rounded-[16px]"
+            >
+              {savingStudySettings ? <Loader2 className="w-4 h-4 animate-spin" /> : "Save"}
+            </Button>
+          </div>
+        </Card>
+
         {/* Stats Card with Glow */}
         <Card className="glass-strong p-6 shadow-float fade-in-up border-white/40" style={{ animationDelay: '0.1s' }}>
           <h2 className="font-bold mb-5 text-lg">Your Progress</h2>
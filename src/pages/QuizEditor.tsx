@@ -0,0 +1,326 @@
+import { useState, useEffect, useCallback, memo } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ArrowDown, ArrowLeft, ArrowUp, Edit2, Loader2, Plus, Save, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+import { useOptimisticUpdate } from "@/hooks/useOptimisticUpdate";
+import { toast } from "sonner";
+import { displayAnswer, questionType } from "@/lib/quizGrading";
+import { QUESTION_TYPES, QuestionDraft, draftFromQuestion, draftToRow } from "@/lib/quizEditor";
+import { QuestionEditorDialog } from "@/components/quizzes/QuestionEditorDialog";
+
+type EditorQuestion = Pick<
+  Tables<"questions">,
+  "id" | "question_text" | "question_type" | "options" | "correct_answer" | "explanation" | "position"
+>;
+
+const QUESTION_COLUMNS = "id, question_text, question_type, options, correct_answer, explanation, position";
+
+const swap = <T,>(items: T[], a: number, b: number) => {
+  const swapped = [...items];
+  [swapped[a], swapped[b]] = [swapped[b], swapped[a]];
+  return swapped;
+};
+
+const typeLabel = (question: EditorQuestion) =>
+  QUESTION_TYPES.find((type) => type.value === questionType(question))?.label;
+
+const QuizEditor = memo(() => {
+  const { quizId } = useParams();
+  const navigate = useNavigate();
+  const [title, setTitle] = useState("");
+  const [savedTitle, setSavedTitle] = useState("");
+  const [questions, setQuestions] = useState<EditorQuestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingTitle, setSavingTitle] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [dialogDraft, setDialogDraft] = useState<QuestionDraft | null | undefined>(undefined);
+  const [questionToDelete, setQuestionToDelete] = useState<string | null>(null);
+  const { user } = useAuth();
+  const applyOptimistic = useOptimisticUpdate(setQuestions);
+
+  const fetchQuiz = useCallback(async () => {
+    if (!user || !quizId) return;
+
+    try {
+      const [quiz, quizQuestions] = await Promise.all([
+        supabase
+          .from("quizzes")
+          .select("title")
+          .eq("id", quizId)
+          .eq("user_id", user.id)
+          .maybeSingle(),
+        supabase
+          .from("questions")
+          .select(QUESTION_COLUMNS)
+          .eq("quiz_id", quizId)
+          .order("position", { ascending: true })
+          .order("created_at", { ascending: true }),
+      ]);
+
+      if (quiz.error) throw quiz.error;
+      if (quizQuestions.error) throw quizQuestions.error;
+      if (!quiz.data) {
+        toast.error("Quiz not found");
+        navigate("/quizzes");
+        return;
+      }
+
+      setTitle(quiz.data.title);
+      setSavedTitle(quiz.data.title);
+      setQuestions(quizQuestions.data || []);
+    } catch (error) {
+      console.error("Error fetching quiz:", error);
+      toast.error("Failed to load quiz");
+    } finally {
+      setLoading(false);
+    }
+  }, [user, quizId, navigate]);
+
+  useEffect(() => {
+    fetchQuiz();
+  }, [fetchQuiz]);
+
+  const handleSaveTitle = async () => {
+    if (!quizId || !title.trim()) return;
+
+    setSavingTitle(true);
+    try {
+      const { error } = await supabase.from("quizzes").update({ title: title.trim() }).eq("id", quizId);
+      if (error) throw error;
+
+      setTitle(title.trim());
+      setSavedTitle(title.trim());
+      toast.success("Quiz renamed");
+    } catch (error) {
+      console.error("Error renaming quiz:", error);
+      toast.error("Failed to rename quiz");
+    } finally {
+      setSavingTitle(false);
+    }
+  };
+
+  const openEditor = (question: EditorQuestion | null) => {
+    setEditingId(question?.id ?? null);
+    setDialogDraft(question ? draftFromQuestion(question) : null);
+  };
+
+  const closeEditor = (open: boolean) => {
+    if (open) return;
+    setEditingId(null);
+    setDialogDraft(undefined);
+  };
+
+  const handleSaveQuestion = async (draft: QuestionDraft) => {
+    if (!quizId) return false;
+
+    const changes = draftToRow(draft);
+    if (editingId) {
+      const questionId = editingId;
+      return applyOptimistic(
+        (prev) => prev.map((question) => (question.id === questionId ? { ...question, ...changes } : question)),
+        () => supabase.from("questions").update(changes).eq("id", questionId),
+        "Failed to update question"
+      );
+    }
+
+    const question: EditorQuestion = {
+      id: crypto.randomUUID(),
+      position: questions.reduce((max, q) => Math.max(max, q.position + 1), 0),
+      ...changes,
+    };
+    const created = await applyOptimistic(
+      (prev) => [...prev, question],
+      () => supabase.from("questions").insert({ ...question, quiz_id: quizId }),
+      "Failed to add question"
+    );
+    if (created) toast.success("Question added");
+    return created;
+  };
+
+  const handleMove = async (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (!quizId || target < 0 || target >= questions.length) return;
+
+    const movedId = questions[index].id;
+    const otherId = questions[target].id;
+    const order = swap(questions.map((question) => question.id), index, target);
+
+    // Every position is rewritten by one database call, so a reorder is saved whole or not at all
+    await applyOptimistic(
+      (prev) => {
+        const from = prev.findIndex((question) => question.id === movedId);
+        const to = prev.findIndex((question) => question.id === otherId);
+        if (from < 0 || to < 0) return prev;
+        return swap(prev, from, to).map((question, position) =>
+          question.position === position ? question : { ...question, position }
+        );
+      },
+      () => supabase.rpc("reorder_quiz_questions", { p_quiz_id: quizId, p_question_ids: order }),
+      "Failed to reorder questions"
+    );
+  };
+
+  const handleDeleteConfirm = async () => {
+    const questionId = questionToDelete;
+    setQuestionToDelete(null);
+    if (!questionId) return;
+
+    const deleted = await applyOptimistic(
+      (prev) => prev.filter((question) => question.id !== questionId),
+      () => supabase.from("questions").delete().eq("id", questionId),
+      "Failed to delete question"
+    );
+    if (deleted) toast.success("Question deleted");
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-4 pb-24">
+      <div className="max-w-2xl mx-auto pt-8 space-y-4">
+        <div className="flex items-center gap-3 mb-2">
+          <Button size="sm" variant="ghost" onClick={() => navigate("/quizzes")}>
+            <ArrowLeft className="w-4 h-4 mr-1" /> Quizzes
+          </Button>
+          <h2 className="text-xl font-bold">Edit quiz</h2>
+        </div>
+
+        <Card className="glass p-6">
+          <label htmlFor="quiz-title" className="text-sm font-medium">Title</label>
+          <div className="flex gap-2 mt-2">
+            <Input
+              id="quiz-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleSaveTitle()}
+            />
+            <Button
+              onClick={handleSaveTitle}
+              disabled={savingTitle || !title.trim() || title.trim() === savedTitle}
+            >
+              {savingTitle ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Save className="w-4 h-4 mr-2" />}
+              Save
+            </Button>
+          </div>
+        </Card>
+
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-muted-foreground">
+            {questions.length} {questions.length === 1 ? "question" : "questions"}
+          </p>
+          <Button size="sm" onClick={() => openEditor(null)}>
+            <Plus className="w-4 h-4 mr-1" /> New question
+          </Button>
+        </div>
+
+        {questions.length === 0 ? (
+          <Card className="glass p-8 text-center">
+            <p className="text-sm text-muted-foreground">This quiz has no questions yet.</p>
+          </Card>
+        ) : (
+          questions.map((question, index) => (
+            <Card key={question.id} className="glass p-6">
+              <div className="flex items-start gap-3">
+                <div className="flex flex-col">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleMove(index, -1)}
+                    disabled={index === 0}
+                    title="Move up"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleMove(index, 1)}
+                    disabled={index === questions.length - 1}
+                    title="Move down"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </Button>
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="font-semibold mb-2">
+                    {index + 1}. {question.question_text}
+                  </p>
+                  <p className="text-sm text-green-500 mb-2">Answer: {displayAnswer(question)}</p>
+                  {question.explanation && (
+                    <p className="text-sm text-muted-foreground italic line-clamp-2 mb-2">
+                      {question.explanation}
+                    </p>
+                  )}
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{typeLabel(question)}</Badge>
+                    <div className="ml-auto flex gap-1">
+                      <Button size="sm" variant="ghost" onClick={() => openEditor(question)} className="hover:bg-primary/10">
+                        <Edit2 className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setQuestionToDelete(question.id)}
+                        className="hover:bg-destructive/10 text-destructive hover:text-destructive"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            </Card>
+          ))
+        )}
+      </div>
+
+      <QuestionEditorDialog initial={dialogDraft} onOpenChange={closeEditor} onSave={handleSaveQuestion} />
+
+      <AlertDialog open={questionToDelete !== null} onOpenChange={(open) => !open && setQuestionToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Are you sure you want to delete this question?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This action cannot be undone. Answers to it in past attempts will be removed as well.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDeleteConfirm}
+              className="bg-destructive hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+});
+
+QuizEditor.displayName = 'QuizEditor';
+
+export default QuizEditor;
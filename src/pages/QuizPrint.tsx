@@ -0,0 +1,236 @@
+import { useState, useEffect, useCallback, useMemo, memo } from "react";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { ArrowLeft, Download, Loader2, Printer } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { toast } from "sonner";
+import { downloadFile, safeFileName } from "@/lib/flashcardTransfer";
+import { createShuffleSeed } from "@/lib/quizShuffle";
+import {
+  PrintVersion,
+  SHORT_ANSWER_LINES,
+  optionLetter,
+  preparePrintQuestions,
+  versionCode,
+} from "@/lib/quizPrint";
+import type { Json } from "@/integrations/supabase/types";
+
+type PrintableQuestion = {
+  id: string;
+  question_text: string;
+  question_type: string;
+  options: Json | null;
+  correct_answer: string;
+  explanation: string | null;
+};
+
+const VERSIONS: { value: PrintVersion; label: string }[] = [
+  { value: "student", label: "Student sheet" },
+  { value: "key", label: "Answer key" },
+];
+
+const QuizPrint = memo(() => {
+  const { quizId } = useParams();
+  const navigate = useNavigate();
+  // Version and seed live in the URL so a shuffled handout and its key can be reopened together
+  const [searchParams, setSearchParams] = useSearchParams();
+  const version: PrintVersion = searchParams.get("version") === "key" ? "key" : "student";
+  const seedParam = Number(searchParams.get("seed"));
+  const seed = searchParams.has("seed") && Number.isInteger(seedParam) ? seedParam : null;
+  const [title, setTitle] = useState("");
+  const [questions, setQuestions] = useState<PrintableQuestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const { user } = useAuth();
+
+  const fetchQuiz = useCallback(async () => {
+    if (!user || !quizId) return;
+
+    try {
+      const [quiz, quizQuestions] = await Promise.all([
+        supabase
+          .from("quizzes")
+          .select("title")
+          .eq("id", quizId)
+          .eq("user_id", user.id)
+          .maybeSingle(),
+        supabase
+          .from("questions")
+          .select("id, question_text, question_type, options, correct_answer, explanation")
+          .eq("quiz_id", quizId)
+          .order("position", { ascending: true })
+          .order("created_at", { ascending: true }),
+      ]);
+
+      if (quiz.error) throw quiz.error;
+      if (quizQuestions.error) throw quizQuestions.error;
+      if (!quiz.data) {
+        toast.error("Quiz not found");
+        navigate("/quizzes");
+        return;
+      }
+
+      setTitle(quiz.data.title);
+      setQuestions(quizQuestions.data || []);
+    } catch (error) {
+      console.error("Error fetching quiz:", error);
+      toast.error("Failed to load quiz");
+    } finally {
+      setLoading(false);
+    }
+  }, [user, quizId, navigate]);
+
+  useEffect(() => {
+    fetchQuiz();
+  }, [fetchQuiz]);
+
+  const printQuestions = useMemo(() => preparePrintQuestions(questions, seed), [questions, seed]);
+  const code = versionCode(seed);
+
+  const updateParams = (changes: { version?: PrintVersion; seed?: number | null }) => {
+    const next = { version, seed, ...changes };
+    const params = new URLSearchParams();
+    if (next.version === "key") params.set("version", "key");
+    if (next.seed !== null) params.set("seed", String(next.seed));
+    setSearchParams(params, { replace: true });
+  };
+
+  const handleDownloadPdf = async () => {
+    setExporting(true);
+    try {
+      const { canExportPdf, exportQuizPdf } = await import("@/lib/quizPdf");
+      if (!canExportPdf({ title, questions: printQuestions })) {
+        toast.info("This quiz uses characters the PDF export can't show. Choose \"Save as PDF\" in the print dialog instead.");
+        window.print();
+        return;
+      }
+
+      const blob = await exportQuizPdf({ title, version, versionCode: code, questions: printQuestions });
+      const suffix = [version === "key" ? "answer-key" : null, code && `v${code}`].filter(Boolean).join("-");
+      downloadFile(blob, `${safeFileName(title)}${suffix ? `-${suffix}` : ""}.pdf`, "application/pdf");
+    } catch (error) {
+      console.error("Error exporting quiz PDF:", error);
+      toast.error("Failed to create PDF");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-4 pb-24 print:bg-white print:text-black print:p-0">
+      <div className="max-w-2xl mx-auto pt-8 print:pt-0 print:max-w-none">
+        <div className="print:hidden space-y-4 mb-6">
+          <div className="flex items-center gap-3">
+            <Button size="sm" variant="ghost" onClick={() => navigate("/quizzes")}>
+              <ArrowLeft className="w-4 h-4 mr-1" /> Quizzes
+            </Button>
+            <h2 className="text-xl font-bold">Print quiz</h2>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            {VERSIONS.map((option) => (
+              <Button
+                key={option.value}
+                size="sm"
+                variant={version === option.value ? "default" : "outline"}
+                onClick={() => updateParams({ version: option.value })}
+              >
+                {option.label}
+              </Button>
+            ))}
+            <label className="flex items-center gap-2 text-sm ml-auto">
+              Shuffle options
+              <Switch
+                checked={seed !== null}
+                onCheckedChange={(checked) => updateParams({ seed: checked ? createShuffleSeed() : null })}
+              />
+            </label>
+          </div>
+          {seed !== null && (
+            <p className="text-xs text-muted-foreground">
+              Print both sheets with version {code} selected so the answer key matches the handout.
+            </p>
+          )}
+
+          <div className="flex gap-2">
+            <Button onClick={() => window.print()} variant="outline" className="flex-1">
+              <Printer className="w-4 h-4 mr-2" /> Print
+            </Button>
+            <Button onClick={handleDownloadPdf} disabled={exporting || questions.length === 0} className="flex-1">
+              {exporting ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Download className="w-4 h-4 mr-2" />}
+              Download PDF
+            </Button>
+          </div>
+        </div>
+
+        <article className="bg-white text-black rounded-lg p-8 shadow-md print:shadow-none print:rounded-none print:p-0">
+          <header className="mb-6 border-b border-black/20 pb-4">
+            <h1 className="text-2xl font-bold">{title}</h1>
+            <p className="text-sm text-black/60">
+              {version === "key" ? "Answer key" : "Practice test"}
+              {code && ` · Version ${code}`}
+            </p>
+            {version === "student" && (
+              <p className="text-sm mt-4">
+                Name: ______________________________ Date: ______________
+              </p>
+            )}
+          </header>
+
+          {printQuestions.length === 0 ? (
+            <p className="text-sm text-black/60">This quiz has no questions yet.</p>
+          ) : (
+            <ol className="space-y-6">
+              {printQuestions.map((question) => (
+                <li key={question.number} className="break-inside-avoid">
+                  <p className="font-semibold">
+                    {question.number}. {question.text}
+                  </p>
+                  {version === "key" ? (
+                    <div className="ml-6 mt-1 text-sm">
+                      <p>Answer: {question.answer}</p>
+                      {question.explanation && <p className="text-black/60 mt-1">{question.explanation}</p>}
+                    </div>
+                  ) : question.type === "multiple_choice" ? (
+                    <ul className="ml-6 mt-2 space-y-1 text-sm">
+                      {question.options.map((option, index) => (
+                        <li key={index}>
+                          {optionLetter(index)}. {option}
+                        </li>
+                      ))}
+                    </ul>
+                  ) : question.type === "true_false" ? (
+                    <p className="ml-6 mt-2 text-sm space-x-8">
+                      <span>☐ True</span>
+                      <span>☐ False</span>
+                    </p>
+                  ) : (
+                    <div className="ml-6 mt-2">
+                      {Array.from({ length: SHORT_ANSWER_LINES }, (_, line) => (
+                        <div key={line} className="border-b border-black/30 h-8" />
+                      ))}
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </article>
+      </div>
+    </div>
+  );
+});
+
+QuizPrint.displayName = 'QuizPrint';
+
+export default QuizPrint;
@@ -1,12 +1,13 @@
-import { useState, useEffect, memo, useCallback } from "react";
+import { useState, useEffect, useRef, memo, useCallback } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
-import { Label } from "@/components/ui/label";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import { useAuth } from "@/hooks/useAuth";
+import { useQuizTimer } from "@/hooks/useQuizTimer";
 import { toast } from "sonner";
-import { ClipboardCheck, Loader2, CheckCircle2, XCircle, Trophy, Trash2 } from "lucide-react";
+import { ClipboardCheck, Loader2, CheckCircle2, XCircle, Trophy, Trash2, CircleDot, History, RotateCcw, Timer, Pause, Play, X, Edit2, Plus, Target, GraduationCap, Printer } from "lucide-react";
 import { Progress } from "@/components/ui/progress";
 import {
   AlertDialog,
@@ -18,18 +19,54 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import { QuestionInput } from "@/components/quizzes/QuestionInput";
+import { QuizHistory } from "@/components/quizzes/QuizHistory";
+import { QuizStartDialog } from "@/components/quizzes/QuizStartDialog";
+import { AttemptSummary, fetchAttemptAnswers, fetchAttempts, saveAttempt } from "@/lib/quizAttempts";
+import {
+  AnswerFeedback,
+  displayAnswer,
+  gradeShortAnswer,
+  isAnswerCorrect,
+  questionType,
+} from "@/lib/quizGrading";
+import {
+  QuizProgress,
+  clearLocalProgress,
+  discardProgress,
+  fetchResumableQuizzes,
+  saveLocalProgress,
+  saveServerProgress,
+} from "@/lib/quizProgress";
+import { createShuffleSeed, shuffleQuestions } from "@/lib/quizShuffle";
+import { collectWeakSpots, createWeakSpotsQuiz, hasWeakSpots } from "@/lib/weakSpots";
+import { TimerSettings, UNTIMED, compareTimes, describeDifference, formatDuration } from "@/lib/quizTimer";
+import { cn } from "@/lib/utils";
+
+// Server saves are debounced; the local copy is written on every change
+const SERVER_SAVE_DELAY_MS = 2000;
+const LOCAL_SAVE_INTERVAL_MS = 10000;
+
+// How a quiz run is set up; everything defaults to a fresh, untimed run in stored order
+type QuizRun = {
+  retryOf?: string | null;
+  timer?: TimerSettings;
+  shuffleSeed?: number | null;
+  resume?: QuizProgress | null;
+};
 
 interface Quiz {
   id: string;
   title: string;
   created_at: string;
+  time_limit_seconds: number | null;
 }
 
 interface Question {
   id: string;
   question_text: string;
   question_type: string;
-  options: any;
+  options: Json | null;
   correct_answer: string;
   explanation: string | null;
 }
@@ -41,11 +78,43 @@ const Quizzes = memo(() => {
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [userAnswers, setUserAnswers] = useState<Record<string, string>>({});
   const [showResults, setShowResults] = useState(false);  
+  const [feedback, setFeedback] = useState<Record<string, AnswerFeedback>>({});
+  const [submitting, setSubmitting] = useState(false);
+  const [results, setResults] = useState<Record<string, boolean>>({});
+  const [attemptId, setAttemptId] = useState<string | null>(null);
+  const [retryOf, setRetryOf] = useState<string | null>(null);
+  const [reviewedAt, setReviewedAt] = useState<string | null>(null);
+  const [historyQuiz, setHistoryQuiz] = useState<Quiz | null>(null);
+  const [quizToStart, setQuizToStart] = useState<Quiz | null>(null);
+  const [timerSettings, setTimerSettings] = useState<TimerSettings>(UNTIMED);
+  const [shuffleSeed, setShuffleSeed] = useState<number | null>(null);
+  const [timeTaken, setTimeTaken] = useState<number | null>(null);
+  const [previousTimes, setPreviousTimes] = useState<number[]>([]);
+  const [resumable, setResumable] = useState<QuizProgress[]>([]);
   const [loading, setLoading] = useState(true);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [quizToDelete, setQuizToDelete] = useState<string | null>(null);
   const [deleting, setDeleting] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [generatingWeakSpots, setGeneratingWeakSpots] = useState(false);
   const { user } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  const timer = useQuizTimer({
+    // Once submitted, going back to review answers no longer runs the clock
+    active: !!selectedQuiz && !showResults && !attemptId && !submitting && !loading,
+    lockOnHidden: timerSettings.mode !== "off",
+  });
+
+  // Time spent per question, measured on the quiz clock from when it is shown until the student moves on
+  const questionTimes = useRef<Record<string, number>>({});
+  const shownAt = useRef(0);
+
+  // The in_progress quiz_attempts row for the running quiz, and the queue of pending saves to it
+  const progressId = useRef<string | null>(null);
+  const progressSaves = useRef<Promise<void>>(Promise.resolve());
+  const quizInProgress = !!selectedQuiz && !showResults && !attemptId && !reviewedAt && !submitting;
 
   const fetchQuizzes = useCallback(async () => {
     if (!user) return;
@@ -67,9 +136,68 @@ const Quizzes = memo(() => {
     }
   }, [user]);
 
+  const loadResumable = useCallback(async () => {
+    if (!user) return;
+    setResumable(await fetchResumableQuizzes(user.id));
+  }, [user]);
+
   useEffect(() => {
     fetchQuizzes();
-  }, [fetchQuizzes]);
+    loadResumable();
+  }, [fetchQuizzes, loadResumable]);
+
+  // Quizzes built elsewhere (e.g. a mock exam) open straight into the start dialog
+  const startQuizId = (location.state as { startQuizId?: string } | null)?.startQuizId;
+  useEffect(() => {
+    if (!startQuizId || loading) return;
+
+    const quiz = quizzes.find((q) => q.id === startQuizId);
+    if (quiz) setQuizToStart(quiz);
+    navigate(location.pathname, { replace: true, state: null });
+  }, [startQuizId, loading, quizzes, navigate, location.pathname]);
+
+  const handleCreateQuiz = async () => {
+    if (!user) return;
+
+    setCreating(true);
+    try {
+      const { data, error } = await supabase
+        .from("quizzes")
+        .insert({ user_id: user.id, title: "Untitled quiz" })
+        .select("id")
+        .single();
+
+      if (error) throw error;
+      navigate(`/quizzes/${data.id}/edit`);
+    } catch (error) {
+      console.error("Error creating quiz:", error);
+      toast.error("Failed to create quiz");
+      setCreating(false);
+    }
+  };
+
+  const handlePracticeWeakSpots = async () => {
+    if (!user) return;
+
+    setGeneratingWeakSpots(true);
+    try {
+      const weakSpots = await collectWeakSpots(user.id);
+      if (!hasWeakSpots(weakSpots)) {
+        toast.info("No weak spots yet. Take a quiz or review some flashcards first");
+        return;
+      }
+
+      const quiz = await createWeakSpotsQuiz(user.id, weakSpots);
+      setQuizzes((prev) => [quiz, ...prev]);
+      toast.success("Your practice quiz is ready!");
+      setQuizToStart(quiz);
+    } catch (error) {
+      console.error("Error generating weak spots quiz:", error);
+      toast.error("Failed to generate a practice quiz");
+    } finally {
+      setGeneratingWeakSpots(false);
+    }
+  };
 
   const handleDeleteClick = useCallback((quizId: string) => {
     setQuizToDelete(quizId);
@@ -98,6 +226,8 @@ const Quizzes = memo(() => {
       if (quizError) throw quizError;
 
       setQuizzes(quizzes.filter(quiz => quiz.id !== quizToDelete));
+      setResumable((prev) => prev.filter((progress) => progress.quizId !== quizToDelete));
+      if (user) clearLocalProgress(user.id, quizToDelete);
       toast.success("Quiz deleted successfully!");
       setDeleteDialogOpen(false);
       setQuizToDelete(null);
@@ -107,31 +237,77 @@ const Quizzes = memo(() => {
     } finally {
       setDeleting(false);
     }
-  }, [quizToDelete, quizzes]);
+  }, [quizToDelete, quizzes, user]);
+
+  const fetchQuestions = async (quizId: string): Promise<Question[]> => {
+    const { data, error } = await supabase
+      .from("questions")
+      .select("*")
+      .eq("quiz_id", quizId)
+      .order("position", { ascending: true })
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  };
+
+  const handleDiscardProgress = async (progress: QuizProgress) => {
+    if (!user) return;
+
+    setResumable((prev) => prev.filter((p) => p.quizId !== progress.quizId));
+    try {
+      await discardProgress(user.id, progress);
+    } catch (error) {
+      console.error("Error discarding quiz progress:", error);
+    }
+  };
+
+  const startQuiz = (
+    quiz: Quiz,
+    quizQuestions: Question[],
+    { retryOf: retryOfAttempt = null, timer: settings = UNTIMED, shuffleSeed: seed = null, resume = null }: QuizRun = {}
+  ) => {
+    // Only one unfinished run per quiz is kept, so starting over replaces it
+    const stale = resumable.find((progress) => progress.quizId === quiz.id);
+    if (stale && !resume) handleDiscardProgress(stale);
+
+    // Resumed questions already come in the order they were shown
+    setQuestions(resume ? quizQuestions : shuffleQuestions(quizQuestions, seed));
+    setShuffleSeed(seed);
+    setSelectedQuiz(quiz);
+    setCurrentQuestionIndex(0);
+    setUserAnswers({});
+    setFeedback({});
+    setResults({});
+    setAttemptId(null);
+    setRetryOf(retryOfAttempt);
+    setReviewedAt(null);
+    setShowResults(false);
+    setTimerSettings(settings);
+    setTimeTaken(null);
+    setPreviousTimes([]);
+    timer.reset(resume?.elapsedMs);
+    questionTimes.current = { ...resume?.questionTimes };
+    shownAt.current = resume?.shownAtMs ?? 0;
+    progressId.current = resume?.attemptId ?? null;
+
+    if (resume) {
+      setCurrentQuestionIndex(Math.min(resume.currentIndex, quizQuestions.length - 1));
+      setUserAnswers(resume.answers);
+    }
+  };
 
-  const loadQuiz = async (quiz: Quiz) => {
+  const loadQuiz = async (quiz: Quiz, settings: TimerSettings, shuffle: boolean) => {
     try {
       setLoading(true);
-      const { data, error } = await supabase
-        .from("questions")
-        .select("*")
-        .eq("quiz_id", quiz.id);
+      const quizQuestions = await fetchQuestions(quiz.id);
 
-      if (error) throw error;
-      
-      // Filter questions to only include those with options (MCQ questions)
-      const validQuestions = (data || []).filter((q: Question) => q.options && (Array.isArray(q.options) ? q.options.length > 0 : Object.keys(q.options || {}).length > 0));
-      
-      if (validQuestions.length === 0) {
-        toast.error("No valid multiple choice questions found in this quiz");
+      if (quizQuestions.length === 0) {
+        toast.error("This quiz has no questions");
         return;
       }
-      
-      setQuestions(validQuestions);
-      setSelectedQuiz(quiz);
-      setCurrentQuestionIndex(0);
-      setUserAnswers({});
-      setShowResults(false);
+
+      startQuiz(quiz, quizQuestions, { timer: settings, shuffleSeed: shuffle ? createShuffleSeed() : null });
     } catch (error) {
       console.error("Error loading quiz:", error);
       toast.error("Failed to load quiz questions");
@@ -140,56 +316,312 @@ const Quizzes = memo(() => {
     }
   };
 
+  const resumeQuiz = async (progress: QuizProgress) => {
+    const quiz = quizzes.find((q) => q.id === progress.quizId);
+    if (!quiz) return;
+
+    try {
+      setLoading(true);
+      const byId = new Map((await fetchQuestions(quiz.id)).map((q) => [q.id, q]));
+      const quizQuestions = progress.questionIds.flatMap((id) => byId.get(id) ?? []);
+
+      if (quizQuestions.length === 0) {
+        toast.error("This quiz has changed and can't be resumed");
+        handleDiscardProgress(progress);
+        return;
+      }
+
+      startQuiz(quiz, quizQuestions, {
+        retryOf: progress.retryOf,
+        timer: progress.timer,
+        shuffleSeed: progress.shuffleSeed ?? null,
+        resume: progress,
+      });
+    } catch (error) {
+      console.error("Error resuming quiz:", error);
+      toast.error("Failed to resume quiz");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const reviewAttempt = async (quiz: Quiz, attempt: AttemptSummary) => {
+    try {
+      setLoading(true);
+      const [quizQuestions, answers] = await Promise.all([
+        fetchQuestions(quiz.id),
+        fetchAttemptAnswers(attempt.id),
+      ]);
+
+      const answered = quizQuestions.filter((q) => answers.some((answer) => answer.question_id === q.id));
+      if (answered.length === 0) {
+        toast.error("No answers were saved for this attempt");
+        return;
+      }
+
+      setQuestions(shuffleQuestions(answered, attempt.shuffle_seed));
+      setShuffleSeed(attempt.shuffle_seed);
+      setSelectedQuiz(quiz);
+      setUserAnswers(Object.fromEntries(answers.map((answer) => [answer.question_id, answer.given_answer ?? ""])));
+      setFeedback(Object.fromEntries(
+        answers.filter((answer) => answer.feedback).map((answer) => [answer.question_id, answer.feedback])
+      ));
+      setResults(Object.fromEntries(answers.map((answer) => [answer.question_id, answer.is_correct])));
+      setAttemptId(attempt.id);
+      setRetryOf(null);
+      setReviewedAt(attempt.completed_at);
+      setTimerSettings(UNTIMED);
+      setTimeTaken(attempt.time_taken);
+      setPreviousTimes([]);
+      setShowResults(true);
+    } catch (error) {
+      console.error("Error loading quiz attempt:", error);
+      toast.error("Failed to load this attempt");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const retryWrong = async (quiz: Quiz, fromAttemptId: string) => {
+    try {
+      setLoading(true);
+      const [quizQuestions, answers] = await Promise.all([
+        fetchQuestions(quiz.id),
+        fetchAttemptAnswers(fromAttemptId),
+      ]);
+
+      const wrongIds = new Set(answers.filter((answer) => !answer.is_correct).map((answer) => answer.question_id));
+      const wrongQuestions = quizQuestions.filter((q) => wrongIds.has(q.id));
+      if (wrongQuestions.length === 0) {
+        toast.error(answers.length === 0 ? "No answers were saved for this attempt" : "Nothing to retry, every answer was correct");
+        return;
+      }
+
+      startQuiz(quiz, wrongQuestions, { retryOf: fromAttemptId, shuffleSeed: createShuffleSeed() });
+    } catch (error) {
+      console.error("Error loading questions to retry:", error);
+      toast.error("Failed to load questions to retry");
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleAnswerSelect = (questionId: string, answer: string) => {
+    // Submitted answers are graded already, so they stay as they were
+    if (attemptId) return;
     setUserAnswers((prev) => ({
       ...prev,
       [questionId]: answer,
     }));
   };
 
+  const recordTimeSpent = () => {
+    const question = questions[currentQuestionIndex];
+    if (!question) return;
+
+    const now = timer.getElapsedMs();
+    questionTimes.current[question.id] = (questionTimes.current[question.id] ?? 0) + now - shownAt.current;
+    shownAt.current = now;
+  };
+
   const handleNext = () => {
+    recordTimeSpent();
     if (currentQuestionIndex < questions.length - 1) {
       setCurrentQuestionIndex((prev) => prev + 1);
     }
   };
 
+  // Per-question timing forbids going back only while the attempt is running, not when reviewing it
+  const questionLocked = timerSettings.mode === "question" && !attemptId;
+
   const handlePrevious = () => {
+    if (questionLocked) return;
+    recordTimeSpent();
     if (currentQuestionIndex > 0) {
       setCurrentQuestionIndex((prev) => prev - 1);
     }
   };
 
+  // Short answers graded by AI use its verdict; everything else is checked locally
+  const isQuestionCorrect = (question: Question, grades: Record<string, AnswerFeedback> = feedback) => {
+    const grade = grades[question.id];
+    return grade ? grade.verdict === "correct" : isAnswerCorrect(question, userAnswers[question.id]);
+  };
+
+  const gradeShortAnswers = async () => {
+    const shortAnswers = questions.filter(
+      (q) => questionType(q) === "short_answer" && userAnswers[q.id]?.trim()
+    );
+    const results = await Promise.allSettled(
+      shortAnswers.map((q) => gradeShortAnswer(q, userAnswers[q.id]))
+    );
+
+    const grades: Record<string, AnswerFeedback> = {};
+    results.forEach((result, index) => {
+      if (result.status === "fulfilled") {
+        grades[shortAnswers[index].id] = result.value;
+      } else {
+        console.error("Error grading answer:", result.reason);
+      }
+    });
+
+    if (Object.keys(grades).length < shortAnswers.length) {
+      toast.error("Some answers couldn't be graded by AI and were checked automatically");
+    }
+    return grades;
+  };
+
+  // Retries only cover the questions missed earlier, so only full attempts are compared
+  const fetchPreviousTimes = async (quizId: string, currentAttemptId: string) => {
+    if (!user || retryOf) return [];
+
+    try {
+      const attempts = await fetchAttempts(user.id, quizId);
+      return attempts
+        .filter((attempt) => attempt.id !== currentAttemptId && !attempt.retry_of)
+        .flatMap((attempt) => (attempt.time_taken === null ? [] : [attempt.time_taken]));
+    } catch (error) {
+      console.error("Error fetching previous attempt times:", error);
+      return [];
+    }
+  };
+
   const handleSubmit = async () => {
-    const score = questions.reduce((acc, q) => {
-      return acc + (userAnswers[q.id] === q.correct_answer ? 1 : 0);
-    }, 0);
+    // An attempt id means this quiz was already submitted and is only being reviewed
+    if (!user || !selectedQuiz || submitting || attemptId) return;
+
+    recordTimeSpent();
+    const elapsedSeconds = Math.round(timer.getElapsedMs() / 1000);
+    setSubmitting(true);
+    const grades = await gradeShortAnswers();
+    const correct = Object.fromEntries(questions.map((q) => [q.id, isQuestionCorrect(q, grades)]));
+    setFeedback(grades);
+    setResults(correct);
 
+    const score = questions.filter((q) => correct[q.id]).length;
     const percentage = (score / questions.length) * 100;
 
     try {
-      await supabase.from("quiz_attempts").insert({
-        user_id: user?.id,
-        quiz_id: selectedQuiz?.id,
+      // Let a pending progress save finish so the in-progress row is completed, not orphaned
+      await progressSaves.current;
+      const savedAttemptId = await saveAttempt({
+        quizId: selectedQuiz.id,
         score: percentage,
-        total_questions: questions.length,
+        retryOf,
+        inProgressId: progressId.current,
+        shuffleSeed,
+        timeTaken: elapsedSeconds,
+        answers: questions.map((q) => ({
+          question_id: q.id,
+          given_answer: userAnswers[q.id] ?? null,
+          is_correct: correct[q.id],
+          time_spent_ms: questionTimes.current[q.id] ?? null,
+          feedback: grades[q.id] ?? null,
+        })),
       });
 
+      setAttemptId(savedAttemptId);
+      clearLocalProgress(user.id, selectedQuiz.id);
+      progressId.current = null;
+      setTimeTaken(elapsedSeconds);
+      setPreviousTimes(await fetchPreviousTimes(selectedQuiz.id, savedAttemptId));
       setShowResults(true);
       toast.success(`Quiz completed! Score: ${percentage.toFixed(0)}%`);
     } catch (error) {
       console.error("Error saving quiz attempt:", error);
       toast.error("Failed to save quiz results");
+    } finally {
+      setSubmitting(false);
     }
   };
 
   const resetQuiz = () => {
+    // Leaving mid-quiz keeps it in "Continue where you left off"
+    if (quizInProgress) saveProgress.current(true);
+    loadResumable();
     setSelectedQuiz(null);
     setQuestions([]);
     setCurrentQuestionIndex(0);
     setUserAnswers({});
+    setFeedback({});
+    setResults({});
+    setAttemptId(null);
+    setRetryOf(null);
+    setReviewedAt(null);
     setShowResults(false);
   };
 
+  const saveProgress = useRef<(syncServer: boolean) => void>(() => {});
+  saveProgress.current = (syncServer) => {
+    if (!user || !selectedQuiz) return;
+
+    const progress: QuizProgress = {
+      quizId: selectedQuiz.id,
+      attemptId: progressId.current,
+      retryOf,
+      questionIds: questions.map((q) => q.id),
+      shuffleSeed,
+      currentIndex: currentQuestionIndex,
+      answers: userAnswers,
+      questionTimes: { ...questionTimes.current },
+      timer: timerSettings,
+      elapsedMs: timer.getElapsedMs(),
+      shownAtMs: shownAt.current,
+      savedAt: new Date().toISOString(),
+    };
+    saveLocalProgress(user.id, progress);
+    if (!syncServer) return;
+
+    const userId = user.id;
+    progressSaves.current = progressSaves.current.then(async () => {
+      try {
+        progressId.current = await saveServerProgress(userId, { ...progress, attemptId: progressId.current });
+      } catch (error) {
+        console.error("Error saving quiz progress:", error);
+      }
+    });
+  };
+
+  // Save on every answer and move, and periodically so elapsed time survives a reload
+  const elapsedSaveTick = Math.floor(timer.elapsedMs / LOCAL_SAVE_INTERVAL_MS);
+  useEffect(() => {
+    if (!quizInProgress) return;
+
+    saveProgress.current(false);
+    // The tab may never come back once hidden, so sync right away
+    if (document.hidden) {
+      saveProgress.current(true);
+      return;
+    }
+    const timeout = setTimeout(() => saveProgress.current(true), SERVER_SAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [quizInProgress, userAnswers, currentQuestionIndex, elapsedSaveTick, timer.tabSwitches]);
+
+  // The clock is stopped once submitted, so no countdown is shown while reviewing
+  const remainingSeconds = attemptId
+    ? null
+    : timerSettings.mode === "quiz"
+      ? timerSettings.limitSeconds - timer.elapsedMs / 1000
+      : timerSettings.mode === "question"
+        ? timerSettings.limitSeconds - (timer.elapsedMs - shownAt.current) / 1000
+        : null;
+  const timeUp = remainingSeconds !== null && remainingSeconds <= 0;
+
+  // Always points at the latest handlers so the expiry effect never acts on stale answers
+  const handleTimeUp = useRef(() => {});
+  handleTimeUp.current = () => {
+    if (timerSettings.mode === "question" && currentQuestionIndex < questions.length - 1) {
+      handleNext();
+      return;
+    }
+    toast.info("Time's up! Submitting your answers");
+    handleSubmit();
+  };
+
+  useEffect(() => {
+    if (timeUp) handleTimeUp.current();
+  }, [timeUp, currentQuestionIndex]);
+
   if (loading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center p-4">
@@ -198,7 +630,24 @@ const Quizzes = memo(() => {
     );
   }
 
+  if (!selectedQuiz && historyQuiz && user) {
+    return (
+      <QuizHistory
+        userId={user.id}
+        quiz={historyQuiz}
+        onBack={() => setHistoryQuiz(null)}
+        onReview={(attempt) => reviewAttempt(historyQuiz, attempt)}
+        onRetryWrong={(attempt) => retryWrong(historyQuiz, attempt.id)}
+      />
+    );
+  }
+
   if (!selectedQuiz) {
+    const unfinished = resumable.flatMap((progress) => {
+      const quiz = quizzes.find((q) => q.id === progress.quizId);
+      return quiz ? [{ quiz, progress }] : [];
+    });
+
     return (
       <div className="min-h-screen bg-background p-4 pb-24">
         <header className="pt-8 pb-6 text-center">
@@ -208,16 +657,62 @@ const Quizzes = memo(() => {
             <p className="text-muted-foreground text-sm">
               Test your knowledge with AI-generated quizzes
             </p>
+            <div className="flex flex-wrap justify-center gap-2 mt-4">
+              <Button size="sm" onClick={handlePracticeWeakSpots} disabled={generatingWeakSpots}>
+                {generatingWeakSpots ? <Loader2 className="w-4 h-4 animate-spin mr-1" /> : <Target className="w-4 h-4 mr-1" />}
+                {generatingWeakSpots ? "Generating..." : "Practice my weak spots"}
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => navigate("/quizzes/exam")}>
+                <GraduationCap className="w-4 h-4 mr-1" /> Mock exam
+              </Button>
+              <Button size="sm" variant="outline" onClick={handleCreateQuiz} disabled={creating}>
+                {creating ? <Loader2 className="w-4 h-4 animate-spin mr-1" /> : <Plus className="w-4 h-4 mr-1" />}
+                New quiz
+              </Button>
+            </div>
           </div>
         </header>
 
         <div className="max-w-2xl mx-auto space-y-4">
+          {unfinished.length > 0 && (
+            <div className="space-y-3 mb-6">
+              <h2 className="text-sm font-semibold text-muted-foreground">Continue where you left off</h2>
+              {unfinished.map(({ quiz, progress }) => (
+                <Card key={quiz.id} className="glass border-primary/40">
+                  <CardHeader className="flex flex-row items-center justify-between gap-3 space-y-0">
+                    <div className="flex-1 min-w-0">
+                      <CardTitle className="text-lg truncate">{quiz.title}</CardTitle>
+                      <CardDescription>
+                        Question {progress.currentIndex + 1} of {progress.questionIds.length}
+                        {" · "}
+                        {Object.values(progress.answers).filter((answer) => answer.trim()).length} answered
+                        {progress.timer.mode !== "off" && ` · ${formatDuration(progress.elapsedMs / 1000)} used`}
+                        {progress.retryOf && " · Retry"}
+                      </CardDescription>
+                    </div>
+                    <Button size="sm" onClick={() => resumeQuiz(progress)}>
+                      <Play className="w-4 h-4 mr-1" /> Continue
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleDiscardProgress(progress)}
+                      title="Discard progress"
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </CardHeader>
+                </Card>
+              ))}
+            </div>
+          )}
+
           {quizzes.length === 0 ? (
             <Card className="glass p-8 text-center">
               <ClipboardCheck className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
               <h3 className="text-lg font-semibold mb-2">No quizzes yet</h3>
               <p className="text-muted-foreground text-sm mb-4">
-                Create study materials with AI to generate quizzes automatically
+                Create study materials with AI to generate quizzes automatically, or write your own
               </p>
             </Card>
           ) : (
@@ -227,12 +722,36 @@ const Quizzes = memo(() => {
                 className="glass transition-all duration-300 hover:shadow-md hover:-translate-y-1"
               >
                 <CardHeader className="flex flex-row items-start justify-between space-y-0">
-                  <div className="flex-1 cursor-pointer" onClick={() => loadQuiz(quiz)}>
+                  <div className="flex-1 cursor-pointer" onClick={() => setQuizToStart(quiz)}>
                     <CardTitle className="text-lg">{quiz.title}</CardTitle>
                     <CardDescription>
                       Created {new Date(quiz.created_at).toLocaleDateString()}
                     </CardDescription>
                   </div>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setHistoryQuiz(quiz)}
+                    title="History"
+                  >
+                    <History className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => navigate(`/quizzes/${quiz.id}/edit`)}
+                    title="Edit"
+                  >
+                    <Edit2 className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => navigate(`/quizzes/${quiz.id}/print`)}
+                    title="Print"
+                  >
+                    <Printer className="w-4 h-4" />
+                  </Button>
                   <Button
                     size="sm"
                     variant="ghost"
@@ -274,49 +793,100 @@ const Quizzes = memo(() => {
             </AlertDialogFooter>
           </AlertDialogContent>
         </AlertDialog>
+
+        <QuizStartDialog
+          quizTitle={quizToStart?.title ?? null}
+          defaultSettings={
+            quizToStart?.time_limit_seconds
+              ? { mode: "quiz", limitSeconds: quizToStart.time_limit_seconds }
+              : UNTIMED
+          }
+          hasProgress={unfinished.some(({ quiz }) => quiz.id === quizToStart?.id)}
+          onOpenChange={(open) => !open && setQuizToStart(null)}
+          onStart={(settings, shuffle) => {
+            if (quizToStart) loadQuiz(quizToStart, settings, shuffle);
+            setQuizToStart(null);
+          }}
+        />
       </div>
     );
   }
 
   if (showResults) {
-    const score = questions.reduce((acc, q) => {
-      return acc + (userAnswers[q.id] === q.correct_answer ? 1 : 0);
-    }, 0);
+    const score = questions.filter((q) => results[q.id]).length;
     const percentage = (score / questions.length) * 100;
+    const times = compareTimes(previousTimes);
+    const comparisons = timeTaken === null ? [] : [
+      { label: "your last attempt", time: times.last },
+      { label: "your best", time: times.best },
+      { label: "your average", time: times.average },
+    ].flatMap(({ label, time }) => (time === null ? [] : [`${describeDifference(timeTaken, time)} ${label}`]));
 
     return (
       <div className="min-h-screen bg-background p-4 pb-24">
         <div className="max-w-2xl mx-auto pt-8">
           <Card className="glass p-8 text-center mb-6">
             <Trophy className="w-16 h-16 mx-auto mb-4 text-primary" />
-            <h2 className="text-3xl font-bold mb-2">Quiz Complete!</h2>
+            <h2 className="text-3xl font-bold mb-2">{reviewedAt ? "Past Attempt" : "Quiz Complete!"}</h2>
+            {reviewedAt && (
+              <p className="text-sm text-muted-foreground mb-2">
+                {new Date(reviewedAt).toLocaleString()}
+              </p>
+            )}
             <p className="text-5xl font-bold text-primary mb-4">{percentage.toFixed(0)}%</p>
             <p className="text-muted-foreground mb-6">
               You got {score} out of {questions.length} questions correct
             </p>
-            <div className="flex gap-3 justify-center">
+            {timeTaken !== null && (
+              <div className="text-sm text-muted-foreground mb-6 space-y-1">
+                <p className="flex items-center justify-center gap-1 font-medium text-foreground">
+                  <Timer className="w-4 h-4" /> {formatDuration(timeTaken)}
+                </p>
+                {comparisons.map((comparison) => (
+                  <p key={comparison}>{comparison}</p>
+                ))}
+                {!reviewedAt && timerSettings.mode !== "off" && timer.tabSwitches > 0 && (
+                  <p>
+                    Left the quiz {timer.tabSwitches} {timer.tabSwitches === 1 ? "time" : "times"}
+                  </p>
+                )}
+              </div>
+            )}
+            <div className="flex flex-wrap gap-3 justify-center">
               <Button onClick={resetQuiz} variant="outline">
-                Back to Quizzes
-              </Button>
-              <Button onClick={() => {
-                setShowResults(false);
-                setCurrentQuestionIndex(0);
-              }}>
-                Review Answers
+                {historyQuiz ? "Back to History" : "Back to Quizzes"}
               </Button>
+              {!reviewedAt && (
+                <Button onClick={() => {
+                  setShowResults(false);
+                  setCurrentQuestionIndex(0);
+                }}>
+                  Review Answers
+                </Button>
+              )}
+              {attemptId && score < questions.length && (
+                <Button onClick={() => retryWrong(selectedQuiz, attemptId)}>
+                  <RotateCcw className="w-4 h-4 mr-2" /> Retry Wrong Ones
+                </Button>
+              )}
             </div>
           </Card>
 
           <div className="space-y-4">
             {questions.map((question, index) => {
               const userAnswer = userAnswers[question.id];
-              const isCorrect = userAnswer === question.correct_answer;
+              const isCorrect = results[question.id];
+              const isShortAnswer = questionType(question) === "short_answer";
+              const grade = feedback[question.id];
+              const isPartial = grade?.verdict === "partially_correct";
 
               return (
                 <Card key={question.id} className="glass p-6">
                   <div className="flex items-start gap-3 mb-4">
                     {isCorrect ? (
                       <CheckCircle2 className="w-6 h-6 text-green-500 flex-shrink-0 mt-1" />
+                    ) : isPartial ? (
+                      <CircleDot className="w-6 h-6 text-amber-500 flex-shrink-0 mt-1" />
                     ) : (
                       <XCircle className="w-6 h-6 text-red-500 flex-shrink-0 mt-1" />
                     )}
@@ -325,13 +895,21 @@ const Quizzes = memo(() => {
                         {index + 1}. {question.question_text}
                       </p>
                       <p className="text-sm text-muted-foreground mb-2">
-                        Your answer: <span className={isCorrect ? "text-green-500" : "text-red-500"}>{userAnswer || "Not answered"}</span>
+                        Your answer: <span className={isCorrect ? "text-green-500" : isPartial ? "text-amber-500" : "text-red-500"}>{userAnswer || "Not answered"}</span>
                       </p>
-                      {!isCorrect && (
+                      {(!isCorrect || isShortAnswer) && (
                         <p className="text-sm text-green-500 mb-2">
-                          Correct answer: {question.correct_answer}
+                          {isShortAnswer ? "Model answer" : "Correct answer"}: {displayAnswer(question)}
                         </p>
                       )}
+                      {grade && (
+                        <div className="text-sm rounded-lg bg-accent/50 p-3 my-2">
+                          <p className="font-medium mb-1">
+                            Feedback · {Math.round(grade.score * 100)}%
+                          </p>
+                          <p className="text-muted-foreground">{grade.feedback}</p>
+                        </div>
+                      )}
                       {question.explanation && (
                         <p className="text-sm text-muted-foreground italic mt-2">
                           {question.explanation}
@@ -357,34 +935,49 @@ const Quizzes = memo(() => {
         <div className="mb-6">
           <div className="flex items-center justify-between mb-2">
             <h2 className="text-xl font-bold">{selectedQuiz.title}</h2>
-            <span className="text-sm text-muted-foreground">
-              {currentQuestionIndex + 1} / {questions.length}
-            </span>
+            <div className="flex items-center gap-3">
+              {remainingSeconds !== null && (
+                <span
+                  className={cn(
+                    "flex items-center gap-1 text-sm font-mono tabular-nums",
+                    remainingSeconds <= 10 ? "text-destructive" : "text-muted-foreground"
+                  )}
+                >
+                  <Timer className="w-4 h-4" /> {formatDuration(Math.ceil(remainingSeconds))}
+                </span>
+              )}
+              <span className="text-sm text-muted-foreground">
+                {currentQuestionIndex + 1} / {questions.length}
+              </span>
+            </div>
           </div>
           <Progress value={progress} className="h-2" />
         </div>
 
-        <Card className="glass p-6 mb-6">
-          <h3 className="text-lg font-semibold mb-4">{currentQuestion.question_text}</h3>
-          
-          {currentQuestion && currentQuestion.options ? (
-            <RadioGroup
+        {timer.paused ? (
+          <Card className="glass p-8 mb-6 text-center">
+            <Pause className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+            <h3 className="text-lg font-semibold mb-2">Quiz paused</h3>
+            <p className="text-muted-foreground text-sm mb-4">
+              The clock stops while you're away. Questions stay hidden until you resume.
+            </p>
+            <Button onClick={timer.resume}>
+              <Play className="w-4 h-4 mr-2" /> Resume
+            </Button>
+          </Card>
+        ) : (
+          <Card className="glass p-6 mb-6">
+            <h3 className="text-lg font-semibold mb-4">{currentQuestion.question_text}</h3>
+
+            <QuestionInput
+              question={currentQuestion}
+              shuffleSeed={shuffleSeed}
               value={userAnswers[currentQuestion.id] || ""}
-              onValueChange={(value) => handleAnswerSelect(currentQuestion.id, value)}
-            >
-              {(Array.isArray(currentQuestion.options) ? currentQuestion.options : Object.values(currentQuestion.options || {})).map((option: any, index: number) => (
-                <div key={index} className="flex items-center space-x-2 p-3 rounded-lg hover:bg-accent/50 cursor-pointer">
-                  <RadioGroupItem value={String(option)} id={`option-${index}`} />
-                  <Label htmlFor={`option-${index}`} className="flex-1 cursor-pointer">
-                    {option}
-                  </Label>
-                </div>
-              ))}
-            </RadioGroup>
-          ) : (
-            <p className="text-muted-foreground">No options available for this question</p>
-          )}
-        </Card>
+              onChange={(value) => handleAnswerSelect(currentQuestion.id, value)}
+              readOnly={!!attemptId}
+            />
+          </Card>
+        )}
 
         <div className="flex gap-3">
           <Button
@@ -394,24 +987,36 @@ const Quizzes = memo(() => {
           >
             Exit Quiz
           </Button>
+          {timerSettings.mode !== "off" && !timer.paused && (
+            <Button onClick={timer.pause} variant="outline" size="icon" title="Pause">
+              <Pause className="w-4 h-4" />
+            </Button>
+          )}
           <Button
             onClick={handlePrevious}
-            disabled={currentQuestionIndex === 0}
+            disabled={currentQuestionIndex === 0 || questionLocked || timer.paused}
             variant="outline"
             className="flex-1"
           >
             Previous
           </Button>
-          {currentQuestionIndex === questions.length - 1 ? (
+          {currentQuestionIndex === questions.length - 1 && attemptId ? (
+            <Button onClick={() => setShowResults(true)} className="flex-1">
+              Back to Results
+            </Button>
+          ) : currentQuestionIndex === questions.length - 1 ? (
             <Button
               onClick={handleSubmit}
+              disabled={submitting || timer.paused}
               className="flex-1"
             >
-              Submit Quiz
+              {submitting ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : null}
+              {submitting ? "Grading..." : "Submit Quiz"}
             </Button>
           ) : (
             <Button
               onClick={handleNext}
+              disabled={timer.paused}
               className="flex-1"
             >
               Next
@@ -0,0 +1,19 @@
+// Prompt sections shared by the edge functions that can add cloze deletion cards
+
+// Requirements appended when the client asks for cloze deletion cards
+export const clozeRequirements = `
+
+6. CLOZE CARDS (6-8 cards):
+   - Single sentences stating a definition, formula, date or key fact
+   - Wrap the term to recall in Anki cloze syntax: {{c1::term}}
+   - Optionally add a short hint after the term: {{c1::term::hint}}
+   - Exactly one deletion per card`;
+
+// Example appended to the JSON shape the model must return
+export const clozeJson = `,
+  "cloze_cards": [
+    {
+      "text": "The {{c1::mitochondria}} is the powerhouse of the cell.",
+      "difficulty": "easy|medium|hard"
+    }
+  ]`;
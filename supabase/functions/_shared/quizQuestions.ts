@@ -0,0 +1,41 @@
+// Question handling shared by the edge functions that generate quiz questions
+
+export const QUESTION_TYPES = ['multiple_choice', 'true_false', 'short_answer'] as const;
+
+export type QuestionType = typeof QUESTION_TYPES[number];
+
+export interface QuizQuestion {
+  question: string;
+  type: QuestionType;
+  options: string[] | null;
+  correct_answer: string;
+  explanation: string | null;
+}
+
+// Keeps only questions the quiz player can render and grade; drops the rest
+export const validateQuestion = (value: unknown): QuizQuestion | null => {
+  if (!value || typeof value !== 'object') return null;
+
+  const { question, type, options, correct_answer, explanation } = value as Record<string, unknown>;
+  if (typeof question !== 'string' || !question.trim()) return null;
+  if (typeof type !== 'string' || !QUESTION_TYPES.includes(type as QuestionType)) return null;
+  if (typeof correct_answer !== 'string' || !correct_answer.trim()) return null;
+
+  const answer = correct_answer.trim();
+  let choices: string[] | null = null;
+
+  if (type === 'multiple_choice') {
+    if (!Array.isArray(options)) return null;
+    choices = options.filter((option): option is string => typeof option === 'string' && !!option.trim()).map((option) => option.trim());
+    if (choices.length < 2 || !choices.includes(answer)) return null;
+  }
+  if (type === 'true_false' && !['true', 'false'].includes(answer.toLowerCase())) return null;
+
+  return {
+    question: question.trim(),
+    type: type as QuestionType,
+    options: choices,
+    correct_answer: type === 'true_false' ? (answer.toLowerCase() === 'true' ? 'True' : 'False') : answer,
+    explanation: typeof explanation === 'string' && explanation.trim() ? explanation.trim() : null,
+  };
+};
@@ -0,0 +1,231 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { validateQuestion } from "../_shared/quizQuestions.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const MODES = ['summary', 'flashcards', 'quiz_questions'] as const;
+
+type Mode = typeof MODES[number];
+
+const DIFFICULTIES = ['easy', 'medium', 'hard'];
+
+interface Flashcard {
+  question: string;
+  answer: string;
+  difficulty: string;
+}
+
+const MAX_ITEM_COUNT = 20;
+// Existing items listed in the prompt so the model doesn't repeat them
+const MAX_EXISTING_ITEMS = 80;
+
+// Keeps only cards with both sides filled in
+const validateFlashcard = (value: unknown): Flashcard | null => {
+  if (!value || typeof value !== 'object') return null;
+
+  const { question, answer, difficulty } = value as Record<string, unknown>;
+  if (typeof question !== 'string' || !question.trim()) return null;
+  if (typeof answer !== 'string' || !answer.trim()) return null;
+
+  return {
+    question: question.trim(),
+    answer: answer.trim(),
+    difficulty: typeof difficulty === 'string' && DIFFICULTIES.includes(difficulty) ? difficulty : 'medium',
+  };
+};
+
+const summaryTask = (isSection: boolean) => `Write a fresh, EXAM-READY summary of this material (${isSection ? '250-450' : '600-1000'} words):
+- Cover ALL concepts, definitions, processes and applications
+- Add context, examples and connections between ideas
+- Organize with clear headings and logical flow
+
+Return ONLY valid JSON (no markdown):
+{
+  "summary": "The summary..."
+}`;
+
+const flashcardsTask = (count: number) => `Write exactly ${count} NEW flashcards about this material:
+- Cover concepts the existing cards miss before rephrasing ones they cover
+- Questions must be clear and specific
+- Answers must be COMPLETE and detailed (2-4 sentences each)
+- Vary the difficulty
+
+Return ONLY valid JSON (no markdown):
+{
+  "flashcards": [
+    {
+      "question": "Clear, specific question",
+      "answer": "Complete answer",
+      "difficulty": "easy|medium|hard"
+    }
+  ]
+}`;
+
+const questionsTask = (count: number) => `Write exactly ${count} NEW quiz questions about this material:
+- Mix multiple choice (4 options, correct_answer is the exact text of one option), true/false (correct_answer is "True" or "False") and short answer
+- Test understanding rather than recall of exact wording
+- Thorough explanations for each answer
+
+Return ONLY valid JSON (no markdown):
+{
+  "quiz_questions": [
+    {
+      "question": "Question text",
+      "type": "multiple_choice|true_false|short_answer",
+      "options": ["Option 1", "Option 2", "Option 3", "Option 4"],
+      "correct_answer": "Correct answer",
+      "explanation": "Why this is the answer"
+    }
+  ]
+}`;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { content, title, mode, count, existing = [], part } = await req.json();
+
+    if (!content || !String(content).trim()) {
+      return new Response(
+        JSON.stringify({ error: "Content is required" }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    if (!MODES.includes(mode)) {
+      return new Response(
+        JSON.stringify({ error: `Mode must be one of ${MODES.join(', ')}` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
+    if (!LOVABLE_API_KEY) {
+      throw new Error('LOVABLE_API_KEY not configured');
+    }
+
+    const itemCount = Math.min(Math.max(Number(count) || 1, 1), MAX_ITEM_COUNT);
+    const isSection = !!part && Number.isInteger(part.index) && Number.isInteger(part.total) && part.total > 1;
+    const sectionContext = isSection
+      ? `\nThis is section ${part.index + 1} of ${part.total} of "${title || 'Untitled'}"${part.heading ? `, headed "${part.heading}"` : ''}. Cover only what this section contains.\n`
+      : '';
+    const existingItems = Array.isArray(existing)
+      ? existing.filter((item: unknown): item is string => typeof item === 'string' && !!item.trim()).slice(0, MAX_EXISTING_ITEMS)
+      : [];
+    const avoid = mode !== 'summary' && existingItems.length
+      ? `\nTHESE ALREADY EXIST, DO NOT DUPLICATE OR REPHRASE THEM:\n${existingItems.map((item) => `- ${item}`).join('\n')}\n`
+      : '';
+    const task = mode === 'summary' ? summaryTask(isSection) : mode === 'flashcards' ? flashcardsTask(itemCount) : questionsTask(itemCount);
+
+    console.log(`Extending material: ${title || 'Untitled'} (${mode}${mode === 'summary' ? '' : `, ${itemCount}`})`);
+
+    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: 'google/gemini-2.5-flash',
+        messages: [
+          {
+            role: 'system',
+            content: 'You are an expert educational content creator adding to an existing set of study materials. Return ONLY valid JSON without any markdown formatting or code blocks.'
+          },
+          {
+            role: 'user',
+            content: `Material Content:
+${content}
+${sectionContext}${avoid}
+${task}`
+          }
+        ],
+        temperature: 0.8,
+      }),
+    });
+
+    if (!response.ok) {
+      if (response.status === 429) {
+        return new Response(
+          JSON.stringify({ error: "Rate limit exceeded. Please try again in a moment." }),
+          { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      if (response.status === 402) {
+        return new Response(
+          JSON.stringify({ error: "AI credits depleted. Please add credits to continue." }),
+          { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      const errorText = await response.text();
+      console.error('AI API Error:', response.status, errorText);
+      throw new Error(`AI API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const aiContent = data.choices?.[0]?.message?.content;
+
+    if (!aiContent) {
+      throw new Error('No content generated');
+    }
+
+    // Clean the response - remove markdown code blocks if present
+    let cleanedContent = aiContent.trim();
+    if (cleanedContent.startsWith('```json')) {
+      cleanedContent = cleanedContent.replace(/^```json\s*/, '').replace(/\s*```$/, '');
+    } else if (cleanedContent.startsWith('```')) {
+      cleanedContent = cleanedContent.replace(/^```\s*/, '').replace(/\s*```$/, '');
+    }
+
+    let parsedContent;
+    try {
+      parsedContent = JSON.parse(cleanedContent);
+    } catch (parseError) {
+      console.error('Failed to parse AI response:', cleanedContent, parseError);
+      throw new Error('AI generated invalid JSON format');
+    }
+
+    let result;
+    if (mode === 'summary') {
+      if (typeof parsedContent.summary !== 'string' || !parsedContent.summary.trim()) {
+        throw new Error('AI generated no summary');
+      }
+      result = { summary: parsedContent.summary.trim() };
+    } else if (mode === 'flashcards') {
+      const flashcards = Array.isArray(parsedContent.flashcards)
+        ? parsedContent.flashcards.map(validateFlashcard).filter(Boolean).slice(0, itemCount)
+        : [];
+      if (flashcards.length === 0) {
+        throw new Error('AI generated no usable flashcards');
+      }
+      result = { flashcards };
+    } else {
+      const questions = Array.isArray(parsedContent.quiz_questions)
+        ? parsedContent.quiz_questions.map(validateQuestion).filter(Boolean).slice(0, itemCount)
+        : [];
+      if (questions.length === 0) {
+        throw new Error('AI generated no usable questions');
+      }
+      result = { quiz_questions: questions };
+    }
+
+    console.log(`Extended material with ${mode}`);
+
+    return new Response(
+      JSON.stringify(result),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    console.error('Error in extend-material:', error);
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,174 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { QUESTION_TYPES, type QuestionType, type QuizQuestion, validateQuestion } from "../_shared/quizQuestions.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface ExamMaterial {
+  title: string;
+  content: string;
+}
+
+const MAX_QUESTION_COUNT = 30;
+// Each material is trimmed so several of them fit in one request
+const MAX_CONTENT_CHARS = 8000;
+
+const TYPE_LABELS: Record<QuestionType, string> = {
+  multiple_choice: 'multiple choice (4 options, correct_answer is the exact text of one option)',
+  true_false: 'true/false (correct_answer is "True" or "False")',
+  short_answer: 'short answer (correct_answer is a concise model answer)',
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { materials, count, types, existing_questions = [] } = await req.json();
+
+    if (!Array.isArray(materials) || materials.length === 0) {
+      return new Response(
+        JSON.stringify({ error: "At least one material is required" }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const questionCount = Math.min(Math.max(Number(count) || 1, 1), MAX_QUESTION_COUNT);
+    const allowedTypes: QuestionType[] = Array.isArray(types)
+      ? QUESTION_TYPES.filter((type) => types.includes(type))
+      : [...QUESTION_TYPES];
+    if (allowedTypes.length === 0) {
+      return new Response(
+        JSON.stringify({ error: "At least one question type is required" }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
+    if (!LOVABLE_API_KEY) {
+      throw new Error('LOVABLE_API_KEY not configured');
+    }
+
+    console.log(`Generating ${questionCount} exam questions from ${materials.length} materials`);
+
+    const sources = (materials as ExamMaterial[])
+      .map((material, index) => `--- MATERIAL ${index + 1}: ${material.title} ---\n${String(material.content ?? '').slice(0, MAX_CONTENT_CHARS)}`)
+      .join('\n\n');
+    const avoid = Array.isArray(existing_questions) && existing_questions.length
+      ? `\nTHE EXAM ALREADY CONTAINS THESE QUESTIONS, DO NOT DUPLICATE THEM:\n${existing_questions.map((question: string) => `- ${question}`).join('\n')}\n`
+      : '';
+
+    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: 'google/gemini-2.5-flash',
+        messages: [
+          {
+            role: 'system',
+            content: 'You are an experienced examiner writing questions for a mock exam that covers several topics. Return ONLY valid JSON without any markdown formatting or code blocks.'
+          },
+          {
+            role: 'user',
+            content: `Write exam questions based on the following study materials.
+
+${sources}
+${avoid}
+REQUIREMENTS:
+- Exactly ${questionCount} questions
+- Spread the questions evenly across the materials
+- Only use these question types: ${allowedTypes.map((type) => TYPE_LABELS[type]).join('; ')}
+- Test understanding rather than recall of exact wording
+- Thorough explanations for each answer
+
+Return ONLY valid JSON (no markdown):
+{
+  "quiz_questions": [
+    {
+      "question": "Question text",
+      "type": "${allowedTypes.join('|')}",
+      "options": ["Option 1", "Option 2", "Option 3", "Option 4"],
+      "correct_answer": "Correct answer",
+      "explanation": "Why this is the answer"
+    }
+  ]
+}`
+          }
+        ],
+        temperature: 0.7,
+      }),
+    });
+
+    if (!response.ok) {
+      if (response.status === 429) {
+        return new Response(
+          JSON.stringify({ error: "Rate limit exceeded. Please try again in a moment." }),
+          { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      if (response.status === 402) {
+        return new Response(
+          JSON.stringify({ error: "AI credits depleted. Please add credits to continue." }),
+          { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      const errorText = await response.text();
+      console.error('AI API Error:', response.status, errorText);
+      throw new Error(`AI API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const aiContent = data.choices?.[0]?.message?.content;
+
+    if (!aiContent) {
+      throw new Error('No questions generated');
+    }
+
+    // Clean the response - remove markdown code blocks if present
+    let cleanedContent = aiContent.trim();
+    if (cleanedContent.startsWith('```json')) {
+      cleanedContent = cleanedContent.replace(/^```json\s*/, '').replace(/\s*```$/, '');
+    } else if (cleanedContent.startsWith('```')) {
+      cleanedContent = cleanedContent.replace(/^```\s*/, '').replace(/\s*```$/, '');
+    }
+
+    let parsedContent;
+    try {
+      parsedContent = JSON.parse(cleanedContent);
+    } catch (parseError) {
+      console.error('Failed to parse AI response:', cleanedContent, parseError);
+      throw new Error('AI generated invalid JSON format');
+    }
+
+    const questions = Array.isArray(parsedContent.quiz_questions)
+      ? parsedContent.quiz_questions
+          .map(validateQuestion)
+          .filter((question: QuizQuestion | null) => question !== null && allowedTypes.includes(question.type))
+          .slice(0, questionCount)
+      : [];
+    if (questions.length === 0) {
+      throw new Error('AI generated no usable questions');
+    }
+
+    console.log(`Generated ${questions.length} exam questions`);
+
+    return new Response(
+      JSON.stringify({ quiz_questions: questions }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    console.error('Error in generate-exam-questions:', error);
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { clozeJson, clozeRequirements } from "../_shared/clozePrompt.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -12,7 +13,7 @@ serve(async (req) => {
   }
 
   try {
-    const { topic } = await req.json();
+    const { topic, include_cloze } = await req.json();
     
     if (!topic || !topic.trim()) {
       return new Response(
@@ -78,7 +79,7 @@ CRITICAL REQUIREMENTS:
 5. QUIZ QUESTIONS (8-10 questions):
    - Mix: 4 multiple choice, 3 true/false, 3 short answer
    - Questions should test deep understanding
-   - Explanations must be thorough and educational
+   - Explanations must be thorough and educational${include_cloze ? clozeRequirements : ''}
 
 Return ONLY valid JSON (no markdown):
 {
@@ -101,7 +102,7 @@ Return ONLY valid JSON (no markdown):
       "correct_answer": "Correct answer",
       "explanation": "Thorough explanation of why this is correct and why others are wrong"
     }
-  ]
+  ]${include_cloze ? clozeJson : ''}
 }`
           }
         ],
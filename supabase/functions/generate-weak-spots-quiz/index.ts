@@ -0,0 +1,176 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { type QuizQuestion, validateQuestion } from "../_shared/quizQuestions.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface MissedQuestion {
+  question: string;
+  correct_answer: string;
+  given_answer?: string | null;
+  explanation?: string | null;
+}
+
+interface LapsedFlashcard {
+  question: string;
+  answer: string;
+}
+
+const DEFAULT_QUESTION_COUNT = 10;
+const MAX_QUESTION_COUNT = 20;
+
+const formatMissed = (missed: MissedQuestion[]) =>
+  missed
+    .map((item, index) => {
+      const given = item.given_answer?.trim() ? `\n   Student answered: ${item.given_answer}` : '\n   Student left it blank';
+      return `${index + 1}. ${item.question}\n   Correct answer: ${item.correct_answer}${given}`;
+    })
+    .join('\n');
+
+const formatLapsed = (lapsed: LapsedFlashcard[]) =>
+  lapsed.map((card, index) => `${index + 1}. Q: ${card.question}\n   A: ${card.answer}`).join('\n');
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { missed_questions = [], lapsed_flashcards = [], question_count } = await req.json();
+
+    if (!Array.isArray(missed_questions) || !Array.isArray(lapsed_flashcards)) {
+      return new Response(
+        JSON.stringify({ error: "Missed questions and lapsed flashcards must be lists" }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    if (missed_questions.length === 0 && lapsed_flashcards.length === 0) {
+      return new Response(
+        JSON.stringify({ error: "No weak spots to practice" }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const count = Math.min(Math.max(Number(question_count) || DEFAULT_QUESTION_COUNT, 1), MAX_QUESTION_COUNT);
+
+    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
+    if (!LOVABLE_API_KEY) {
+      throw new Error('LOVABLE_API_KEY not configured');
+    }
+
+    console.log(`Generating weak spots quiz from ${missed_questions.length} questions and ${lapsed_flashcards.length} flashcards`);
+
+    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: 'google/gemini-2.5-flash',
+        messages: [
+          {
+            role: 'system',
+            content: 'You are an expert tutor who writes targeted practice quizzes. Identify the concepts behind a student\'s mistakes and test those concepts again from new angles. Return ONLY valid JSON without any markdown formatting or code blocks.'
+          },
+          {
+            role: 'user',
+            content: `A student keeps getting the following material wrong. Write a NEW practice quiz on the same underlying concepts.
+${missed_questions.length ? `\nQUIZ QUESTIONS THEY ANSWERED INCORRECTLY:\n${formatMissed(missed_questions)}\n` : ''}${lapsed_flashcards.length ? `\nFLASHCARDS THEY KEEP FORGETTING:\n${formatLapsed(lapsed_flashcards)}\n` : ''}
+REQUIREMENTS:
+- Exactly ${count} questions
+- Do NOT repeat the questions above word for word; rephrase, apply the concept to a new example, or ask about a related detail
+- Where a wrong answer reveals a misconception, include a question that targets it
+- Mix: about half multiple choice, a quarter true/false, a quarter short answer
+- Multiple choice: 4 options, and correct_answer must be the exact text of one option
+- True/false: correct_answer must be "True" or "False"
+- Thorough explanations that address the likely misunderstanding
+
+Return ONLY valid JSON (no markdown):
+{
+  "title": "Short quiz title naming the main topics",
+  "quiz_questions": [
+    {
+      "question": "Question text",
+      "type": "multiple_choice|true_false|short_answer",
+      "options": ["Option 1", "Option 2", "Option 3", "Option 4"],
+      "correct_answer": "Correct answer",
+      "explanation": "Why this is the answer"
+    }
+  ]
+}`
+          }
+        ],
+        temperature: 0.7,
+      }),
+    });
+
+    if (!response.ok) {
+      if (response.status === 429) {
+        return new Response(
+          JSON.stringify({ error: "Rate limit exceeded. Please try again in a moment." }),
+          { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      if (response.status === 402) {
+        return new Response(
+          JSON.stringify({ error: "AI credits depleted. Please add credits to continue." }),
+          { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      const errorText = await response.text();
+      console.error('AI API Error:', response.status, errorText);
+      throw new Error(`AI API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const aiContent = data.choices?.[0]?.message?.content;
+
+    if (!aiContent) {
+      throw new Error('No quiz generated');
+    }
+
+    // Clean the response - remove markdown code blocks if present
+    let cleanedContent = aiContent.trim();
+    if (cleanedContent.startsWith('```json')) {
+      cleanedContent = cleanedContent.replace(/^```json\s*/, '').replace(/\s*```$/, '');
+    } else if (cleanedContent.startsWith('```')) {
+      cleanedContent = cleanedContent.replace(/^```\s*/, '').replace(/\s*```$/, '');
+    }
+
+    let parsedContent;
+    try {
+      parsedContent = JSON.parse(cleanedContent);
+    } catch (parseError) {
+      console.error('Failed to parse AI response:', cleanedContent, parseError);
+      throw new Error('AI generated invalid JSON format');
+    }
+
+    const questions = Array.isArray(parsedContent.quiz_questions)
+      ? parsedContent.quiz_questions.map(validateQuestion).filter((question: QuizQuestion | null) => question !== null)
+      : [];
+    if (questions.length === 0) {
+      throw new Error('AI generated no usable questions');
+    }
+
+    console.log(`Weak spots quiz generated with ${questions.length} questions`);
+
+    return new Response(
+      JSON.stringify({
+        title: typeof parsedContent.title === 'string' ? parsedContent.title.trim() : '',
+        quiz_questions: questions,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    console.error('Error in generate-weak-spots-quiz:', error);
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
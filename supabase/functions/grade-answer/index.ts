@@ -0,0 +1,162 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const VERDICTS = ['correct', 'partially_correct', 'incorrect'] as const;
+
+type Verdict = typeof VERDICTS[number];
+
+interface Grade {
+  score: number;
+  verdict: Verdict;
+  feedback: string;
+}
+
+// Rejects anything that is not exactly the shape the client relies on
+const validateGrade = (value: unknown): Grade => {
+  if (!value || typeof value !== 'object') {
+    throw new Error('AI grade is not an object');
+  }
+
+  const { score, verdict, feedback } = value as Record<string, unknown>;
+  if (typeof score !== 'number' || !Number.isFinite(score) || score < 0 || score > 1) {
+    throw new Error('AI grade has an invalid score');
+  }
+  if (typeof verdict !== 'string' || !VERDICTS.includes(verdict as Verdict)) {
+    throw new Error('AI grade has an invalid verdict');
+  }
+  if (typeof feedback !== 'string' || !feedback.trim()) {
+    throw new Error('AI grade is missing feedback');
+  }
+
+  return { score, verdict: verdict as Verdict, feedback: feedback.trim() };
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { question, reference_answer, explanation, student_answer } = await req.json();
+
+    if (!question || !reference_answer || typeof student_answer !== 'string') {
+      return new Response(
+        JSON.stringify({ error: "Question, reference answer and student answer are required" }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Nothing to grade, so skip the AI call entirely
+    if (!student_answer.trim()) {
+      return new Response(
+        JSON.stringify({ score: 0, verdict: 'incorrect', feedback: 'No answer was given.' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
+    if (!LOVABLE_API_KEY) {
+      throw new Error('LOVABLE_API_KEY not configured');
+    }
+
+    console.log('Grading short answer');
+
+    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: 'google/gemini-2.5-flash',
+        messages: [
+          {
+            role: 'system',
+            content: 'You are a fair and encouraging teacher grading a student\'s short answer. Judge meaning, not wording: accept synonyms, paraphrases and minor spelling mistakes, and do not require details the question did not ask for. Always respond with valid JSON only.'
+          },
+          {
+            role: 'user',
+            content: `Grade the student's answer against the reference answer.
+
+QUESTION:
+${question}
+
+REFERENCE ANSWER:
+${reference_answer}
+${explanation ? `\nEXPLANATION:\n${explanation}\n` : ''}
+STUDENT ANSWER:
+${student_answer}
+
+Return ONLY valid JSON (no markdown):
+{
+  "score": 0.0 to 1.0 (how much of the reference answer the student got right),
+  "verdict": "correct|partially_correct|incorrect",
+  "feedback": "1-3 sentences addressed to the student: what they got right, what is missing or wrong, and how to improve"
+}`
+          }
+        ],
+        temperature: 0.2,
+      }),
+    });
+
+    if (!response.ok) {
+      if (response.status === 429) {
+        return new Response(
+          JSON.stringify({ error: "Rate limit exceeded. Please try again in a moment." }),
+          { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      if (response.status === 402) {
+        return new Response(
+          JSON.stringify({ error: "AI credits depleted. Please add credits to continue." }),
+          { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      const errorText = await response.text();
+      console.error('AI API Error:', response.status, errorText);
+      throw new Error(`AI API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const aiContent = data.choices?.[0]?.message?.content;
+
+    if (!aiContent) {
+      throw new Error('No grade generated');
+    }
+
+    // Clean the response - remove markdown code blocks if present
+    let cleanedContent = aiContent.trim();
+    if (cleanedContent.startsWith('```json')) {
+      cleanedContent = cleanedContent.replace(/^```json\s*/, '').replace(/\s*```$/, '');
+    } else if (cleanedContent.startsWith('```')) {
+      cleanedContent = cleanedContent.replace(/^```\s*/, '').replace(/\s*```$/, '');
+    }
+
+    let grade: Grade;
+    try {
+      grade = validateGrade(JSON.parse(cleanedContent));
+    } catch (parseError) {
+      console.error('Invalid AI grade:', cleanedContent, parseError);
+      throw new Error('AI generated an invalid grade');
+    }
+
+    console.log(`Short answer graded: ${grade.verdict} (${grade.score})`);
+
+    return new Response(
+      JSON.stringify(grade),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    console.error('Error in grade-answer:', error);
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
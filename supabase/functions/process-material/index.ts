@@ -1,18 +1,40 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { clozeJson, clozeRequirements } from "../_shared/clozePrompt.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// How much to generate for a whole document versus one section of a long one
+const fullScope = {
+  summaryWords: '600-1000',
+  flashcards: '12-15',
+  difficultyMix: '5 easy, 5 medium, 5 hard',
+  keyPoints: '8-10',
+  examples: '4-6',
+  quizQuestions: '8-10',
+  quizMix: '4 multiple choice, 3 true/false, 3 short answer',
+};
+
+const sectionScope = {
+  summaryWords: '250-450',
+  flashcards: '5-7',
+  difficultyMix: '2 easy, 2 medium, 2 hard',
+  keyPoints: '4-5',
+  examples: '2-3',
+  quizQuestions: '4-5',
+  quizMix: '2 multiple choice, 1 true/false, 1 short answer',
+};
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { content, title } = await req.json();
+    const { content, title, include_cloze, part } = await req.json();
     
     if (!content || !content.trim()) {
       return new Response(
@@ -26,7 +48,14 @@ serve(async (req) => {
       throw new Error('LOVABLE_API_KEY not configured');
     }
 
-    console.log(`Processing material: ${title || 'Untitled'}`);
+    // Long materials are split by the client and sent one section at a time
+    const isSection = !!part && Number.isInteger(part.index) && Number.isInteger(part.total) && part.total > 1;
+    const scope = isSection ? sectionScope : fullScope;
+    const sectionContext = isSection
+      ? `\n\nThis is section ${part.index + 1} of ${part.total} of "${title || 'Untitled'}"${part.heading ? `, headed "${part.heading}"` : ''}. Cover only what this section contains; the other sections are processed separately.`
+      : '';
+
+    console.log(`Processing material: ${title || 'Untitled'}${isSection ? ` (section ${part.index + 1}/${part.total})` : ''}`);
 
     // Call Lovable AI to analyze and generate study materials
     const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
@@ -44,14 +73,14 @@ serve(async (req) => {
           },
           {
             role: 'user',
-            content: `Analyze this material and create COMPREHENSIVE, EXAM-READY study resources.
+            content: `Analyze this material and create COMPREHENSIVE, EXAM-READY study resources.${sectionContext}
 
 Material Content:
 ${content}
 
 CRITICAL REQUIREMENTS:
 
-1. EXTENSIVE SUMMARY (600-1000 words):
+1. EXTENSIVE SUMMARY (${scope.summaryWords} words):
    - Create detailed, thorough notes covering ALL concepts in the material
    - Explain definitions, theories, processes, and applications in depth
    - Add context, examples, and connections between ideas
@@ -59,32 +88,32 @@ CRITICAL REQUIREMENTS:
    - Make it comprehensive enough for serious exam preparation
    - Include ALL important details from the source material
 
-2. HIGH-QUALITY FLASHCARDS (12-15 cards):
+2. HIGH-QUALITY FLASHCARDS (${scope.flashcards} cards):
    - Extract the most important concepts from the material
    - Questions must be clear and specific
    - Answers must be COMPLETE and detailed (2-4 sentences each)
    - Include explanations, context, and examples in answers
-   - Vary difficulty: 5 easy, 5 medium, 5 hard
+   - Vary difficulty: ${scope.difficultyMix}
    - NO vague or incomplete answers
 
-3. KEY POINTS (8-10 bullet points):
+3. KEY POINTS (${scope.keyPoints} bullet points):
    - Detailed statements covering critical information
    - Include specific details, formulas, dates, or names
    - Each point should be exam-worthy
 
-4. PRACTICAL EXAMPLES (4-6 examples):
+4. PRACTICAL EXAMPLES (${scope.examples} examples):
    - Real-world applications from the material
    - Step-by-step demonstrations when applicable
    - Diverse examples covering different aspects
 
-5. QUIZ QUESTIONS (8-10 questions):
-   - Mix: 4 multiple choice, 3 true/false, 3 short answer
+5. QUIZ QUESTIONS (${scope.quizQuestions} questions):
+   - Mix: ${scope.quizMix}
    - Test deep understanding of the material
-   - Thorough explanations for each answer
+   - Thorough explanations for each answer${include_cloze ? clozeRequirements : ''}
 
 Return ONLY valid JSON (no markdown):
 {
-  "summary": "EXTENSIVE 600-1000 word summary with all concepts, explanations, and details...",
+  "summary": "EXTENSIVE ${scope.summaryWords} word summary with all concepts, explanations, and details...",
   "flashcards": [
     {
       "question": "Clear, specific question",
@@ -102,7 +131,7 @@ Return ONLY valid JSON (no markdown):
       "correct_answer": "Correct answer",
       "explanation": "Thorough explanation"
     }
-  ]
+  ]${include_cloze ? clozeJson : ''}
 }`
           }
         ],
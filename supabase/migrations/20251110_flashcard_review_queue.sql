@@ -0,0 +1,6 @@
+-- Daily limit of brand-new flashcards introduced into the review queue
+alter table public.user_preferences
+  add column new_cards_per_day integer default 20 check (new_cards_per_day >= 0);
+
+-- Index backing the "due today" review queue
+create index idx_flashcards_user_next_review on public.flashcards(user_id, next_review_date);
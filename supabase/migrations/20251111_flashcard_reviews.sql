@@ -0,0 +1,27 @@
+-- Create flashcard_reviews table logging every graded flashcard review
+create table public.flashcard_reviews (
+  id uuid default uuid_generate_v4() primary key,
+  flashcard_id uuid references public.flashcards(id) on delete cascade not null,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  grade text not null check (grade in ('again', 'hard', 'good', 'easy')),
+  previous_interval integer not null default 0,
+  new_interval integer not null default 0,
+  response_time_ms integer,
+  reviewed_at timestamp with time zone default now()
+);
+
+-- Enable RLS
+alter table public.flashcard_reviews enable row level security;
+
+-- Flashcard reviews policies
+create policy "Users can view their own flashcard reviews"
+  on public.flashcard_reviews for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own flashcard reviews"
+  on public.flashcard_reviews for insert
+  with check (auth.uid() = user_id);
+
+-- Create indexes for stats queries
+create index idx_flashcard_reviews_user_reviewed_at on public.flashcard_reviews(user_id, reviewed_at);
+create index idx_flashcard_reviews_flashcard_id on public.flashcard_reviews(flashcard_id);
@@ -0,0 +1,3 @@
+-- Add card types: basic Q/A, reversed (answer shown first) and cloze deletion
+alter table public.flashcards
+  add column card_type text not null default 'basic' check (card_type in ('basic', 'reversed', 'cloze'));
@@ -0,0 +1,5 @@
+-- Materials created by importing a flashcard deck (CSV or Anki package)
+alter table public.materials drop constraint if exists materials_source_type_check;
+alter table public.materials
+  add constraint materials_source_type_check
+  check (source_type in ('upload', 'paste', 'ai_generated', 'import'));
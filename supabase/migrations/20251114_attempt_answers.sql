@@ -0,0 +1,33 @@
+-- Link retries of previously wrong answers back to the attempt they came from
+alter table public.quiz_attempts
+  add column retry_of uuid references public.quiz_attempts(id) on delete set null;
+
+-- Create attempt_answers table storing every answer given in a quiz attempt
+create table public.attempt_answers (
+  id uuid default uuid_generate_v4() primary key,
+  attempt_id uuid references public.quiz_attempts(id) on delete cascade not null,
+  question_id uuid references public.questions(id) on delete cascade not null,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  given_answer text,
+  is_correct boolean not null default false,
+  time_spent_ms integer,
+  -- AI grading result ({ score, verdict, feedback }) for short answers
+  feedback jsonb,
+  created_at timestamp with time zone default now()
+);
+
+-- Enable RLS
+alter table public.attempt_answers enable row level security;
+
+-- Attempt answers policies
+create policy "Users can view their own attempt answers"
+  on public.attempt_answers for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own attempt answers"
+  on public.attempt_answers for insert
+  with check (auth.uid() = user_id);
+
+-- Create indexes for history queries
+create index idx_attempt_answers_attempt_id on public.attempt_answers(attempt_id);
+create index idx_quiz_attempts_user_quiz on public.quiz_attempts(user_id, quiz_id, completed_at);
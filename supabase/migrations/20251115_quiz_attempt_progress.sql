@@ -0,0 +1,19 @@
+-- Track quizzes that were started but not yet submitted so they can be resumed
+alter table public.quiz_attempts
+  add column status text not null default 'completed' check (status in ('in_progress', 'completed')),
+  -- Snapshot of answers, position and timer state while in progress
+  add column progress jsonb,
+  add column updated_at timestamp with time zone default now();
+
+-- In-progress attempts are saved repeatedly and finished or discarded later
+create policy "Users can update their own quiz attempts"
+  on public.quiz_attempts for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own in-progress quiz attempts"
+  on public.quiz_attempts for delete
+  using (auth.uid() = user_id and status = 'in_progress');
+
+-- Create index for the "continue where you left off" list
+create index idx_quiz_attempts_in_progress on public.quiz_attempts(user_id, updated_at)
+  where status = 'in_progress';
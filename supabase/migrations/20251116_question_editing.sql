@@ -0,0 +1,43 @@
+-- Explicit question order so quizzes can be rearranged in the editor
+alter table public.questions
+  add column position integer not null default 0;
+
+-- Keep the creation order for existing questions
+update public.questions
+set position = ordered.position
+from (
+  select id, row_number() over (partition by quiz_id order by created_at, id) - 1 as position
+  from public.questions
+) as ordered
+where questions.id = ordered.id;
+
+-- Questions policies for the quiz editor
+create policy "Users can update questions for their quizzes"
+  on public.questions for update
+  using (
+    exists (
+      select 1 from public.quizzes
+      where quizzes.id = questions.quiz_id
+      and quizzes.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.quizzes
+      where quizzes.id = quiz_id
+      and quizzes.user_id = auth.uid()
+    )
+  );
+
+create policy "Users can delete questions for their quizzes"
+  on public.questions for delete
+  using (
+    exists (
+      select 1 from public.quizzes
+      where quizzes.id = questions.quiz_id
+      and quizzes.user_id = auth.uid()
+    )
+  );
+
+-- Create index for loading a quiz in order
+create index idx_questions_quiz_position on public.questions(quiz_id, position);
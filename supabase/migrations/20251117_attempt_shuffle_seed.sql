@@ -0,0 +1,3 @@
+-- Seed used to shuffle question and option order, so an attempt can be reviewed as it was shown
+alter table public.quiz_attempts
+  add column shuffle_seed integer;
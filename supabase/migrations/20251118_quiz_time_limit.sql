@@ -0,0 +1,3 @@
+-- Suggested whole-quiz time limit, set when a mock exam is built
+alter table public.quizzes
+  add column time_limit_seconds integer check (time_limit_seconds > 0);
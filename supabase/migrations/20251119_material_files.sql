@@ -0,0 +1,18 @@
+-- Uploaded study material files. materials.file_url stores the object path
+-- inside this bucket, and each user's files live under a folder named after
+-- their user id.
+insert into storage.buckets (id, name, public, file_size_limit)
+values ('materials', 'materials', false, 20971520)
+on conflict (id) do nothing;
+
+create policy "Users can view their own material files"
+  on storage.objects for select
+  using (bucket_id = 'materials' and auth.uid()::text = (storage.foldername(name))[1]);
+
+create policy "Users can upload their own material files"
+  on storage.objects for insert
+  with check (bucket_id = 'materials' and auth.uid()::text = (storage.foldername(name))[1]);
+
+create policy "Users can delete their own material files"
+  on storage.objects for delete
+  using (bucket_id = 'materials' and auth.uid()::text = (storage.foldername(name))[1]);
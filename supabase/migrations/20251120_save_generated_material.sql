@@ -0,0 +1,167 @@
+-- Saves a processed material and everything generated from it in one
+-- transaction, so a failure part way through can't leave a half-populated
+-- material behind. Runs with the caller's permissions, so the usual RLS
+-- policies still apply to every insert.
+--
+-- p_generated is the payload built by the client:
+--   summary         text or null
+--   key_points      array of text
+--   examples        array of text
+--   flashcards      array of {question, answer, card_type, difficulty}
+--   quiz_questions  array of {question, type, options, correct_answer, explanation}
+create or replace function public.save_generated_material(
+  p_title text,
+  p_content text,
+  p_source_type text,
+  p_file_url text,
+  p_generated jsonb
+)
+returns jsonb
+language plpgsql
+security invoker set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_summary text;
+  v_material_id uuid;
+  v_note_id uuid;
+  v_quiz_id uuid;
+  v_flashcard_ids uuid[] := '{}';
+  v_question_ids uuid[] := '{}';
+  v_item jsonb;
+  v_id uuid;
+  v_position int := 0;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '28000';
+  end if;
+
+  -- Validate everything up front so errors name the offending item
+  if coalesce(btrim(p_title), '') = '' then
+    raise exception 'Title is required' using errcode = '22023';
+  end if;
+  if coalesce(btrim(p_content), '') = '' then
+    raise exception 'Content is required' using errcode = '22023';
+  end if;
+  if jsonb_typeof(p_generated) is distinct from 'object' then
+    raise exception 'Generated content must be an object' using errcode = '22023';
+  end if;
+  if jsonb_typeof(p_generated->'summary') not in ('string', 'null') then
+    raise exception 'Summary must be text' using errcode = '22023';
+  end if;
+  if exists (
+    select 1
+    from unnest(array['key_points', 'examples', 'flashcards', 'quiz_questions']) as field
+    where p_generated ? field and jsonb_typeof(p_generated->field) <> 'array'
+  ) then
+    raise exception 'Key points, examples, flashcards and quiz questions must be lists' using errcode = '22023';
+  end if;
+  if exists (
+    select 1
+    from jsonb_array_elements(coalesce(p_generated->'key_points', '[]') || coalesce(p_generated->'examples', '[]')) as point
+    where jsonb_typeof(point) <> 'string'
+  ) then
+    raise exception 'Key points and examples must be text' using errcode = '22023';
+  end if;
+
+  for v_item in select * from jsonb_array_elements(coalesce(p_generated->'flashcards', '[]')) loop
+    if coalesce(btrim(v_item->>'question'), '') = '' or coalesce(btrim(v_item->>'answer'), '') = '' then
+      raise exception 'Flashcard % is missing a question or answer', v_position + 1 using errcode = '22023';
+    end if;
+    if coalesce(v_item->>'card_type', 'basic') not in ('basic', 'reversed', 'cloze') then
+      raise exception 'Flashcard % has an unknown card type', v_position + 1 using errcode = '22023';
+    end if;
+    if coalesce(v_item->>'difficulty', 'medium') not in ('easy', 'medium', 'hard') then
+      raise exception 'Flashcard % has an unknown difficulty', v_position + 1 using errcode = '22023';
+    end if;
+    v_position := v_position + 1;
+  end loop;
+
+  v_position := 0;
+  for v_item in select * from jsonb_array_elements(coalesce(p_generated->'quiz_questions', '[]')) loop
+    if coalesce(btrim(v_item->>'question'), '') = '' or coalesce(btrim(v_item->>'correct_answer'), '') = '' then
+      raise exception 'Question % is missing its text or answer', v_position + 1 using errcode = '22023';
+    end if;
+    if coalesce(v_item->>'type', '') not in ('multiple_choice', 'true_false', 'short_answer') then
+      raise exception 'Question % has an unknown type', v_position + 1 using errcode = '22023';
+    end if;
+    if v_item->>'type' = 'multiple_choice' and not (
+      case when jsonb_typeof(v_item->'options') = 'array'
+        then jsonb_array_length(v_item->'options') >= 2
+          and v_item->'options' @> jsonb_build_array(v_item->>'correct_answer')
+        else false
+      end
+    ) then
+      raise exception 'Question % needs at least two options including the correct answer', v_position + 1 using errcode = '22023';
+    end if;
+    v_position := v_position + 1;
+  end loop;
+
+  v_summary := nullif(btrim(p_generated->>'summary'), '');
+
+  insert into public.materials (user_id, title, content, source_type, file_url, summary)
+  values (v_user_id, btrim(p_title), p_content, p_source_type, p_file_url, v_summary)
+  returning id into v_material_id;
+
+  if jsonb_array_length(coalesce(p_generated->'key_points', '[]')) > 0
+    or jsonb_array_length(coalesce(p_generated->'examples', '[]')) > 0 then
+    insert into public.notes (user_id, material_id, title, content, key_points, examples)
+    values (
+      v_user_id,
+      v_material_id,
+      btrim(p_title) || ' - Notes',
+      coalesce(v_summary, ''),
+      coalesce(p_generated->'key_points', '[]'),
+      coalesce(p_generated->'examples', '[]')
+    )
+    returning id into v_note_id;
+  end if;
+
+  for v_item in select * from jsonb_array_elements(coalesce(p_generated->'flashcards', '[]')) loop
+    insert into public.flashcards (user_id, material_id, question, answer, card_type, difficulty)
+    values (
+      v_user_id,
+      v_material_id,
+      btrim(v_item->>'question'),
+      btrim(v_item->>'answer'),
+      coalesce(v_item->>'card_type', 'basic'),
+      coalesce(v_item->>'difficulty', 'medium')
+    )
+    returning id into v_id;
+    v_flashcard_ids := v_flashcard_ids || v_id;
+  end loop;
+
+  if jsonb_array_length(coalesce(p_generated->'quiz_questions', '[]')) > 0 then
+    insert into public.quizzes (user_id, material_id, title)
+    values (v_user_id, v_material_id, btrim(p_title) || ' - Quiz')
+    returning id into v_quiz_id;
+
+    v_position := 0;
+    for v_item in select * from jsonb_array_elements(p_generated->'quiz_questions') loop
+      insert into public.questions (quiz_id, position, question_text, question_type, options, correct_answer, explanation)
+      values (
+        v_quiz_id,
+        v_position,
+        btrim(v_item->>'question'),
+        v_item->>'type',
+        case when jsonb_typeof(v_item->'options') = 'array' then v_item->'options' end,
+        btrim(v_item->>'correct_answer'),
+        nullif(btrim(v_item->>'explanation'), '')
+      )
+      returning id into v_id;
+      v_question_ids := v_question_ids || v_id;
+      v_position := v_position + 1;
+    end loop;
+  end if;
+
+  return jsonb_build_object(
+    'material_id', v_material_id,
+    'note_id', v_note_id,
+    'flashcard_ids', to_jsonb(v_flashcard_ids),
+    'quiz_id', v_quiz_id,
+    'question_ids', to_jsonb(v_question_ids)
+  );
+end;
+$$;
+
+grant execute on function public.save_generated_material(text, text, text, text, jsonb) to authenticated;
@@ -0,0 +1,74 @@
+-- Completes a quiz attempt and stores its answers in one transaction, so an
+-- attempt is never marked completed without the answers behind its score.
+-- Runs with the caller's permissions, so the usual RLS policies still apply.
+--
+-- p_answers is an array of
+--   {question_id, given_answer, is_correct, time_spent_ms, feedback}
+-- Returns the id of the completed attempt.
+create or replace function public.save_quiz_attempt(
+  p_quiz_id uuid,
+  p_in_progress_id uuid,
+  p_score numeric,
+  p_retry_of uuid,
+  p_shuffle_seed integer,
+  p_time_taken integer,
+  p_answers jsonb
+)
+returns uuid
+language plpgsql
+security invoker set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_attempt_id uuid;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '28000';
+  end if;
+  if jsonb_typeof(p_answers) is distinct from 'array' then
+    raise exception 'Answers must be a list' using errcode = '22023';
+  end if;
+
+  -- The in-progress row may already be gone if the quiz was finished elsewhere
+  if p_in_progress_id is not null then
+    update public.quiz_attempts
+    set score = p_score,
+        total_questions = jsonb_array_length(p_answers),
+        retry_of = p_retry_of,
+        time_taken = p_time_taken,
+        shuffle_seed = p_shuffle_seed,
+        status = 'completed',
+        progress = null,
+        completed_at = now(),
+        updated_at = now()
+    where id = p_in_progress_id
+      and user_id = v_user_id
+      and status = 'in_progress'
+    returning id into v_attempt_id;
+  end if;
+
+  if v_attempt_id is null then
+    insert into public.quiz_attempts (
+      user_id, quiz_id, score, total_questions, retry_of, time_taken, shuffle_seed, status, completed_at, updated_at
+    )
+    values (
+      v_user_id, p_quiz_id, p_score, jsonb_array_length(p_answers), p_retry_of, p_time_taken, p_shuffle_seed, 'completed', now(), now()
+    )
+    returning id into v_attempt_id;
+  end if;
+
+  insert into public.attempt_answers (attempt_id, user_id, question_id, given_answer, is_correct, time_spent_ms, feedback)
+  select v_attempt_id, v_user_id, answer.question_id, answer.given_answer, coalesce(answer.is_correct, false), answer.time_spent_ms, answer.feedback
+  from jsonb_to_recordset(p_answers) as answer(
+    question_id uuid,
+    given_answer text,
+    is_correct boolean,
+    time_spent_ms integer,
+    feedback jsonb
+  );
+
+  return v_attempt_id;
+end;
+$$;
+
+grant execute on function public.save_quiz_attempt(uuid, uuid, numeric, uuid, integer, integer, jsonb) to authenticated;
@@ -0,0 +1,16 @@
+-- Lists the caller's cards failed at least p_min_failures times, counted in
+-- the database so the client never has to read every failed review
+create or replace function public.flashcard_leeches(p_min_failures integer)
+returns table (flashcard_id uuid, failures bigint)
+language sql
+stable
+security invoker set search_path = public
+as $$
+  select flashcard_id, count(*) as failures
+  from public.flashcard_reviews
+  where user_id = auth.uid() and grade = 'again'
+  group by flashcard_id
+  having count(*) >= p_min_failures
+$$;
+
+grant execute on function public.flashcard_leeches(integer) to authenticated;
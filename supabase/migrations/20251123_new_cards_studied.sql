@@ -0,0 +1,23 @@
+-- Counts the caller's cards whose first ever review happened at or after
+-- p_since (the start of the student's day), which is how many new cards
+-- they have studied today. Derived from the review log so the daily limit
+-- holds across devices.
+create or replace function public.new_cards_studied_since(p_since timestamp with time zone)
+returns integer
+language sql
+stable
+security invoker set search_path = public
+as $$
+  select count(distinct review.flashcard_id)::integer
+  from public.flashcard_reviews review
+  where review.user_id = auth.uid()
+    and review.reviewed_at >= p_since
+    and not exists (
+      select 1
+      from public.flashcard_reviews earlier
+      where earlier.flashcard_id = review.flashcard_id
+        and earlier.reviewed_at < p_since
+    )
+$$;
+
+grant execute on function public.new_cards_studied_since(timestamp with time zone) to authenticated;
@@ -0,0 +1,16 @@
+-- Renumbers a quiz's questions in the order given, in a single statement so
+-- a reorder is saved completely or not at all. Runs with the caller's
+-- permissions, so only questions of the caller's own quizzes are updated.
+create or replace function public.reorder_quiz_questions(p_quiz_id uuid, p_question_ids uuid[])
+returns void
+language sql
+security invoker set search_path = public
+as $$
+  update public.questions
+  set position = ordered.position - 1
+  from unnest(p_question_ids) with ordinality as ordered(id, position)
+  where questions.id = ordered.id
+    and questions.quiz_id = p_quiz_id
+$$;
+
+grant execute on function public.reorder_quiz_questions(uuid, uuid[]) to authenticated;
@@ -0,0 +1,43 @@
+-- Saves a graded review: the card's new schedule and its row in the review
+-- log are written in one transaction. The daily new-card limit is counted
+-- from the log (see new_cards_studied_since), so a review must never update
+-- the card without being logged.
+create or replace function public.record_flashcard_review(
+  p_flashcard_id uuid,
+  p_grade text,
+  p_previous_interval integer,
+  p_ease_factor numeric,
+  p_interval_days integer,
+  p_review_count integer,
+  p_next_review_date timestamp with time zone,
+  p_response_time_ms integer
+)
+returns void
+language plpgsql
+security invoker set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '28000';
+  end if;
+
+  update public.flashcards
+  set ease_factor = p_ease_factor,
+      interval_days = p_interval_days,
+      review_count = p_review_count,
+      next_review_date = p_next_review_date
+  where id = p_flashcard_id
+    and user_id = v_user_id;
+
+  if not found then
+    raise exception 'Flashcard not found' using errcode = 'P0002';
+  end if;
+
+  insert into public.flashcard_reviews (user_id, flashcard_id, grade, previous_interval, new_interval, response_time_ms)
+  values (v_user_id, p_flashcard_id, p_grade, p_previous_interval, p_interval_days, p_response_time_ms);
+end;
+$$;
+
+grant execute on function public.record_flashcard_review(uuid, text, integer, numeric, integer, integer, timestamp with time zone, integer) to authenticated;